@@ -1,14 +1,48 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { FolderOpen, Play, RefreshCw, Settings, Info, Check, Moon, Sun, Globe, Sliders } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { FolderOpen, Play, RefreshCw, Settings, Info, Check, Moon, Sun, Globe, Sliders, AlertCircle, Download, ArrowUpNarrowWide, ArrowDownWideNarrow, Filter, RotateCcw, RotateCw, FlipHorizontal2, FlipVertical2, X, ShieldCheck } from 'lucide-react';
 import { ImageScanner } from './services/ImageScanner';
+import { DirectoryHandleAdapter, FileSystemAdapter, UploadedFilesAdapter } from './services/FileSystemAdapter';
+import { ZipWriter } from './services/ZipWriter';
 import { ImageRenamer } from './services/ImageRenamer';
-import { ImageFile, ProcessedFile, RenameConfig, FileStatus } from './types';
+import { PatternEngine, PATTERN_TOKENS } from './services/PatternEngine';
+import { RenameJournal } from './services/RenameJournal';
+import { RenameEngine } from './services/RenameEngine';
+import { DuplicateFinder } from './services/DuplicateFinder';
+import { PresetStore, Preset } from './services/PresetStore';
+import { PlanTransfer } from './services/PlanTransfer';
+import { RuleEngine } from './services/RuleEngine';
+import { FileFilter } from './services/FileFilter';
+import { ImageResizer, ImageTaskResult } from './services/ImageResizer';
+import { ImageFile, ProcessedFile, RenameConfig, FileStatus, NumberingScope, ConflictPolicy, OutputFormat, RenameBatch, DirectoryListing, ImageHashes, TargetPlatform, SortKey, ImageTransform } from './types';
 import FileList from './components/FileList';
 import StatsPanel from './components/StatsPanel';
+import HistoryPanel from './components/HistoryPanel';
+import DuplicatesPanel from './components/DuplicatesPanel';
+import PresetPicker from './components/PresetPicker';
+import MappingPanel from './components/MappingPanel';
+import RulesEditor from './components/RulesEditor';
+import ResizeControls from './components/ResizeControls';
+import FilterControls from './components/FilterControls';
+import MetadataControls from './components/MetadataControls';
 import { translations, Language } from './utils/translations';
+import { FORMAT_LABELS, FORMAT_MIME_TYPES, EncodableFormat } from './utils/imageFormats';
+import { DEFAULT_CONFIG } from './utils/defaultConfig';
+import { downloadBlob } from './utils/download';
+import { sortFiles } from './utils/sortFiles';
+import { Upload, readDroppedItems, readInputFiles } from './utils/uploadedFiles';
+import { IDENTITY, TransformAction, applyTransformAction, isIdentity } from './utils/orientation';
 
 const scanner = new ImageScanner();
 const renamer = new ImageRenamer();
+const engine = new RenameEngine(renamer);
+const patternEngine = new PatternEngine();
+const journal = new RenameJournal();
+const resizer = new ImageResizer();
+const duplicateFinder = new DuplicateFinder();
+const presetStore = new PresetStore();
+const planTransfer = new PlanTransfer();
+const ruleEngine = new RuleEngine();
+const fileFilter = new FileFilter();
 
 const App: React.FC = () => {
   // Theme State
@@ -34,26 +68,53 @@ const App: React.FC = () => {
 
   // State
   const [files, setFiles] = useState<ImageFile[]>([]);
+  const [listing, setListing] = useState<DirectoryListing>({});
   const [processedFiles, setProcessedFiles] = useState<ProcessedFile[]>([]);
   const [dirHandle, setDirHandle] = useState<FileSystemDirectoryHandle | null>(null);
+  // Folder uploaded or dropped instead (no File System Access API); results are downloaded as a ZIP
+  const [upload, setUpload] = useState<UploadedFilesAdapter | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
 
+  // Undo journal
+  const [history, setHistory] = useState<RenameBatch[]>([]);
+  const [folderBatchIds, setFolderBatchIds] = useState<Set<string>>(new Set());
+
   // Configuration State
-  const [config, setConfig] = useState<RenameConfig>({
-    pattern: 'image_{num:003}',
-    startNumber: 1,
-    recursive: false,
-    dryRun: false,
-    overwrite: false,
-    prefix: '',
-    suffix: '',
-    // Resize defaults
-    enableResize: false,
-    resizeWidth: 1920,
-    resizeQuality: 85,
-    keepOriginals: false,
-  });
+  const [config, setConfig] = useState<RenameConfig>(DEFAULT_CONFIG);
+
+  // Named presets
+  const [presets, setPresets] = useState<Preset[]>(() => presetStore.list());
+  const activePreset = useMemo(() => presets.find(preset =>
+    (Object.keys(preset.config) as (keyof RenameConfig)[]).every(key => preset.config[key] === config[key])
+  )?.name ?? '', [presets, config]);
+
+  // Pattern validation, shown under the pattern input
+  const patternErrors = useMemo(() => patternEngine.parse(config.pattern).errors, [config.pattern]);
+  const ruleErrors = useMemo(() => ruleEngine.validateAll(config.rules), [config.rules]);
+
+  // The browser must be able to encode the chosen output format
+  const [formatUnsupported, setFormatUnsupported] = useState(false);
+  useEffect(() => {
+    if (config.outputFormat === 'keep') {
+      setFormatUnsupported(false);
+      return;
+    }
+
+    let cancelled = false;
+    resizer.isFormatSupported(FORMAT_MIME_TYPES[config.outputFormat]).then(supported => {
+      if (!cancelled) setFormatUnsupported(!supported);
+    });
+    return () => { cancelled = true; };
+  }, [config.outputFormat]);
+
+  // Workers left over from a higher concurrency stop as soon as they are idle
+  useEffect(() => {
+    renamer.setConcurrency(config.concurrency);
+  }, [config.concurrency]);
+
+  // The image workers live as long as the app
+  useEffect(() => () => renamer.terminateWorkers(), []);
 
   // Apply Theme
   useEffect(() => {
@@ -77,43 +138,483 @@ const App: React.FC = () => {
     localStorage.setItem('photon-lang', newLang);
   };
 
+  // Folder scan in progress; images show up in the list as they are found
+  const [scanStatus, setScanStatus] = useState<{ found: number; entriesRead: number } | null>(null);
+  const scanController = useRef<AbortController | null>(null);
+
+  const folderInput = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  useEffect(() => {
+    // Not part of React's input attributes
+    folderInput.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
   // Handle Real Directory Selection
   const handleDirectorySelect = async () => {
+    if (!scanner.canPickDirectory()) {
+      folderInput.current?.click();
+      return;
+    }
+
     try {
-      // Clean up old object URLs to prevent memory leaks
-      files.forEach(f => {
-        if (f.previewUrl) URL.revokeObjectURL(f.previewUrl);
-      });
+      const handle = await scanner.pickDirectory();
+      if (!handle) return;
+
+      setDirHandle(handle);
+      setUpload(null);
+      setOverrides(new Map());
+      setTransforms(new Map());
+      await reloadFiles(new DirectoryHandleAdapter(handle), config.recursive);
+    } catch (err) {
+      console.error("Directory selection failed:", err);
+      alert("Could not access directory. Please ensure you grant permissions.");
+    }
+  };
+
+  const openUpload = async ({ rootName, files }: Upload) => {
+    if (files.length === 0) return;
+
+    const adapter = new UploadedFilesAdapter(rootName, files);
+    setDirHandle(null);
+    setUpload(adapter);
+    setOverrides(new Map());
+    setTransforms(new Map());
+    await reloadFiles(adapter, config.recursive);
+  };
+
+  const handleFolderInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const list = e.target.files;
+    if (list && list.length > 0) openUpload(readInputFiles(list));
+    e.target.value = ''; // Choosing the same folder again should reload it
+  };
 
-      const result = await scanner.scanDirectory();
+  // Only drags carrying files from outside; rows dragged to reorder the list are ignored
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
 
-      if (result.dirHandle) {
-        setDirHandle(result.dirHandle);
-        setFiles(result.files);
-        setProcessedFiles([]);
-        setProgress(0);
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e) || isProcessing) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    if (!isFileDrag(e) || isProcessing) return;
+    e.preventDefault();
+    setIsDragging(false);
+    try {
+      await openUpload(await readDroppedItems(e.dataTransfer.items));
+    } catch (err) {
+      console.error("Reading dropped files failed:", err);
+      alert("Could not read the dropped files.");
+    }
+  };
+
+  // The open folder or upload, as storage for the scanner
+  const getSource = (): FileSystemAdapter | null => dirHandle ? new DirectoryHandleAdapter(dirHandle) : upload;
+
+  // (Re-)read the open folder, e.g. after toggling subfolders or reverting a batch.
+  // The listing is only complete at the end, so a cancelled scan leaves the list empty.
+  const reloadFiles = async (source: FileSystemAdapter, recursive: boolean) => {
+    scanController.current?.abort();
+    const controller = new AbortController();
+    scanController.current = controller;
+
+    setFiles([]);
+    setListing({});
+    setSelectedIds(new Set()); // Ids are new after a rescan
+    setSelectedOnly(false);
+    setProcessedFiles([]);
+    setProgress(0);
+    setScanStatus({ found: 0, entriesRead: 0 });
+
+    try {
+      const scanned = await scanner.scan(source, recursive, {
+        signal: controller.signal,
+        onProgress: (chunk, entriesRead) => {
+          setFiles(prev => [...prev, ...chunk]);
+          setScanStatus(prev => ({ found: (prev?.found ?? 0) + chunk.length, entriesRead }));
+        }
+      });
+      setFiles(scanned.files);
+      setListing(scanned.listing);
+    } catch (err) {
+      if (!controller.signal.aborted) throw err;
+      // A newer scan may have replaced this one
+      if (scanController.current === controller) setFiles([]);
+    } finally {
+      if (scanController.current === controller) {
+        scanController.current = null;
+        setScanStatus(null);
       }
+    }
+  };
+
+  const handleCancelScan = () => scanController.current?.abort();
+  const isScanning = scanStatus !== null;
+
+  // Rescan the open folder when subfolder scanning is toggled
+  const handleRecursiveChange = async (recursive: boolean) => {
+    setConfig(prev => ({ ...prev, recursive }));
+    const source = getSource();
+    if (!source) return;
+
+    try {
+      await reloadFiles(source, recursive);
     } catch (err) {
-      console.error("Directory selection failed:", err);
+      console.error("Directory rescan failed:", err);
       alert("Could not access directory. Please ensure you grant permissions.");
     }
   };
 
+  const handleApplyPreset = (preset: Preset) => {
+    const { recursive, ...settings } = preset.config;
+    setConfig(prev => ({ ...prev, ...settings }));
+    // Changing subfolder scanning needs a rescan
+    if (recursive !== config.recursive) {
+      handleRecursiveChange(recursive);
+    }
+  };
+
+  const handleSavePreset = () => {
+    const name = window.prompt(t.presetNamePrompt, activePreset)?.trim();
+    if (!name) return;
+    if (presets.some(preset => preset.name === name) && !window.confirm(t.presetOverwriteConfirm.replace('{name}', name))) return;
+
+    setPresets(presetStore.save(name, config));
+  };
+
+  const handleDeletePreset = (name: string) => {
+    if (!window.confirm(t.presetDeleteConfirm.replace('{name}', name))) return;
+    setPresets(presetStore.remove(name));
+  };
+
+  const handleExportPresets = () => {
+    downloadBlob(new Blob([presetStore.serialize(presets)], { type: 'application/json' }), 'photon-presets.json');
+  };
+
+  const handleImportPresets = async (file: File) => {
+    const { presets: imported, errors } = presetStore.parse(await file.text());
+    if (errors.length > 0) {
+      alert(`${t.presetImportFailed}\n\n${errors.join('\n')}`);
+      return;
+    }
+    setPresets(presetStore.merge(imported));
+  };
+
+  // Load the undo journal once
+  useEffect(() => {
+    journal.listBatches()
+      .then(setHistory)
+      .catch(err => console.error("Failed to load rename history:", err));
+  }, []);
+
+  // Only batches executed against the open folder can be reverted
+  useEffect(() => {
+    if (!dirHandle) {
+      setFolderBatchIds(new Set());
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all(history.map(batch => journal.isSameFolder(batch, dirHandle))).then(matches => {
+      if (!cancelled) {
+        setFolderBatchIds(new Set(history.filter((_, i) => matches[i]).map(batch => batch.id)));
+      }
+    });
+    return () => { cancelled = true; };
+  }, [history, dirHandle]);
+
+  const handleRevert = async (batch: RenameBatch) => {
+    if (!dirHandle || !window.confirm(t.revertConfirm)) return;
+
+    setIsProcessing(true);
+    try {
+      const result = await journal.revertBatch(batch, dirHandle);
+      setHistory(await journal.listBatches());
+      await reloadFiles(new DirectoryHandleAdapter(dirHandle), config.recursive);
+
+      if (result.refused.length > 0) {
+        alert(`${t.revertPartial}\n\n${result.refused.map(r => `${r.name}: ${r.reason}`).join('\n')}`);
+      }
+    } catch (err) {
+      console.error("Revert failed:", err);
+      alert("Could not revert the batch. Please ensure you grant permissions.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Duplicate detection; hashes belong to the file list they were computed for
+  const [duplicateScan, setDuplicateScan] = useState<{ files: ImageFile[]; hashes: Map<string, ImageHashes> } | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analyzeProgress, setAnalyzeProgress] = useState(0);
+  const [duplicateThreshold, setDuplicateThreshold] = useState(5);
+  const [excludeDuplicates, setExcludeDuplicates] = useState(false);
+
+  const duplicateGroups = useMemo(() => {
+    if (!duplicateScan || duplicateScan.files !== files) return null;
+    return duplicateFinder.findGroups(files, duplicateScan.hashes, duplicateThreshold);
+  }, [duplicateScan, files, duplicateThreshold]);
+
+  // Files left out by the filters, with the reason. Globs are compiled here, only when a filter changes
+  const filtersActive = fileFilter.isActive(config);
+  const { includeGlobs, excludeGlobs, excludedExtensions, minSize, maxSize, dateFilterField, dateFrom, dateTo } = config;
+  const filteredFiles = useMemo(
+    () => filtersActive
+      ? fileFilter.apply(files, { includeGlobs, excludeGlobs, excludedExtensions, minSize, maxSize, dateFilterField, dateFrom, dateTo })
+      : new Map<string, string>(),
+    [files, filtersActive, includeGlobs, excludeGlobs, excludedExtensions, minSize, maxSize, dateFilterField, dateFrom, dateTo]
+  );
+  const fileExtensions = useMemo(() => [...new Set(files.map(file => file.extension))].sort(), [files]);
+
+  const clearFilters = () => setConfig({
+    ...config,
+    includeGlobs: DEFAULT_CONFIG.includeGlobs,
+    excludeGlobs: DEFAULT_CONFIG.excludeGlobs,
+    excludedExtensions: DEFAULT_CONFIG.excludedExtensions,
+    minSize: DEFAULT_CONFIG.minSize,
+    maxSize: DEFAULT_CONFIG.maxSize,
+    dateFrom: DEFAULT_CONFIG.dateFrom,
+    dateTo: DEFAULT_CONFIG.dateTo
+  });
+
+  const toggleExtension = (extension: string) => setConfig(prev => ({
+    ...prev,
+    excludedExtensions: prev.excludedExtensions.includes(extension)
+      ? prev.excludedExtensions.filter(e => e !== extension)
+      : [...prev.excludedExtensions, extension]
+  }));
+
+  // Filtered files and duplicates left out of the batch, with the reason
+  const excludedFiles = useMemo(() => {
+    const excluded = new Map(filteredFiles);
+    if (excludeDuplicates && duplicateGroups) {
+      duplicateGroups.forEach(group => group.duplicates.forEach(file => {
+        if (!excluded.has(file.id)) excluded.set(file.id, `Duplicate of "${group.keeper.path}"`);
+      }));
+    }
+    return excluded;
+  }, [filteredFiles, excludeDuplicates, duplicateGroups]);
+
+  const handleFindDuplicates = async () => {
+    const scanned = files;
+    setIsAnalyzing(true);
+    setAnalyzeProgress(0);
+    try {
+      const hashes = await duplicateFinder.hashFiles(scanned, (done, total) => setAnalyzeProgress((done / total) * 100));
+      setDuplicateScan({ files: scanned, hashes });
+    } catch (err) {
+      console.error("Duplicate detection failed:", err);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleMoveDuplicates = async () => {
+    if (!dirHandle || !duplicateGroups || !window.confirm(t.moveDuplicatesConfirm)) return;
+
+    setIsProcessing(true);
+    try {
+      const result = await duplicateFinder.moveToFolder(duplicateGroups.flatMap(group => group.duplicates), dirHandle);
+      // Recorded like a batch, so the move can be undone from the history
+      if (result.entries.length > 0) {
+        try {
+          await journal.saveBatch({ ...journal.createBatch(dirHandle), entries: result.entries });
+          setHistory(await journal.listBatches());
+        } catch (err) {
+          console.error("Failed to save the undo journal:", err);
+        }
+      }
+      await reloadFiles(new DirectoryHandleAdapter(dirHandle), config.recursive);
+
+      if (result.failed.length > 0) {
+        alert(`${t.moveDuplicatesPartial}\n\n${result.failed.map(f => `${f.name}: ${f.reason}`).join('\n')}`);
+      }
+    } catch (err) {
+      console.error("Moving duplicates failed:", err);
+      alert("Could not move the duplicates. Please ensure you grant permissions.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Imported name mapping; matched again whenever the file list changes
+  const [mappingSource, setMappingSource] = useState<{ fileName: string; text: string } | null>(null);
+  const nameMapping = useMemo(
+    () => mappingSource ? planTransfer.parseMapping(mappingSource.text, mappingSource.fileName, files) : null,
+    [mappingSource, files]
+  );
+
+  const handleImportMapping = async (file: File) => {
+    setMappingSource({ fileName: file.name, text: await file.text() });
+  };
+
+  const handleExportPlan = (format: 'csv' | 'json') => {
+    const rootName = dirHandle?.name ?? upload?.rootName;
+    const baseName = `rename-plan-${rootName ?? 'files'}`;
+    if (format === 'csv') {
+      downloadBlob(new Blob([planTransfer.toCsv(processedFiles, config)], { type: 'text/csv' }), `${baseName}.csv`);
+    } else {
+      const json = planTransfer.toJson(processedFiles, config, rootName ?? '');
+      downloadBlob(new Blob([json], { type: 'application/json' }), `${baseName}.json`);
+    }
+  };
+
+  // Names typed in the list, by path so they survive rescans
+  const [overrides, setOverrides] = useState<Map<string, string>>(new Map());
+
+  const handleOverride = (file: ProcessedFile, name: string | null) => {
+    setOverrides(prev => {
+      const next = new Map(prev);
+      if (name === null) next.delete(file.path);
+      else next.set(file.path, name);
+      return next;
+    });
+  };
+
+  // Rotations and flips chosen in the list, by path like the typed names
+  const [transforms, setTransforms] = useState<Map<string, ImageTransform>>(new Map());
+
+  const applyTransform = (rows: ProcessedFile[], action: TransformAction) => {
+    setTransforms(prev => {
+      const next = new Map(prev);
+      for (const row of rows) {
+        const transform = applyTransformAction(prev.get(row.path) ?? IDENTITY, action);
+        if (isIdentity(transform)) next.delete(row.path);
+        else next.set(row.path, transform);
+      }
+      return next;
+    });
+  };
+
+  const handleTransform = (file: ProcessedFile, action: TransformAction) => applyTransform([file], action);
+
+  // Row selection; with selectedOnly, the other rows are left out of the batch
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectedOnly, setSelectedOnly] = useState(false);
+
+  const handleSelectionChange = (ids: string[], selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => selected ? next.add(id) : next.delete(id));
+      return next;
+    });
+  };
+
+  const deselectedIds = useMemo(
+    () => selectedOnly && selectedIds.size > 0 ? new Set(files.filter(file => !selectedIds.has(file.id)).map(file => file.id)) : undefined,
+    [selectedOnly, selectedIds, files]
+  );
+
+  // Batch order, which {num} follows; the manual order is kept by path so it survives rescans
+  const [manualOrder, setManualOrder] = useState<string[]>([]);
+  const sortedFiles = useMemo(
+    () => sortFiles(files, config.sortKey, config.sortDirection, manualOrder),
+    [files, config.sortKey, config.sortDirection, manualOrder]
+  );
+
+  const handleSortKeyChange = (sortKey: SortKey) => {
+    // Manual ordering starts from the order currently shown
+    if (sortKey === 'manual') setManualOrder(sortedFiles.map(file => file.path));
+    setConfig({ ...config, sortKey });
+  };
+
+  // Drops the dragged row at the position of the target row
+  const handleReorder = (fromId: string, toId: string) => {
+    const order = [...sortedFiles];
+    const from = order.findIndex(file => file.id === fromId);
+    const to = order.findIndex(file => file.id === toId);
+    if (from === -1 || to === -1) return;
+
+    order.splice(to, 0, ...order.splice(from, 1));
+    setManualOrder(order.map(file => file.path));
+    setConfig(prev => ({ ...prev, sortKey: 'manual' }));
+  };
+
   // Generate Preview Effect
   const refreshPreview = useCallback(() => {
     if (files.length === 0) return;
 
     // Only generate preview if we are NOT currently processing a real batch
     if (!isProcessing) {
-      const previews = renamer.generatePreview(files, config);
+      const previews = renamer.generatePreview(sortedFiles, config, {
+        listing,
+        excluded: excludedFiles,
+        mapping: nameMapping ?? undefined,
+        overrides,
+        deselected: deselectedIds,
+        transforms
+      });
       setProcessedFiles(previews);
     }
-  }, [files, config, isProcessing]);
+  }, [files, sortedFiles, listing, config, isProcessing, excludedFiles, nameMapping, overrides, deselectedIds, transforms]);
+
+  // The batch toolbar edits the selected rows, or every row when none is selected
+  const handleBatchTransform = (action: TransformAction) => {
+    const rows = processedFiles.filter(file => file.status === FileStatus.PENDING || file.status === FileStatus.ERROR);
+    applyTransform(selectedIds.size > 0 ? rows.filter(file => selectedIds.has(file.id)) : rows, action);
+  };
 
   useEffect(() => {
     refreshPreview();
   }, [refreshPreview]);
 
+  // Upload mode: the same plan, written into a ZIP archive instead of the folder
+  const handleDownloadZip = async (source: UploadedFilesAdapter) => {
+    setIsProcessing(true);
+    setProgress(0);
+
+    const zip = new ZipWriter();
+    const executable = processedFiles.filter(file => file.status === FileStatus.PENDING);
+    const rowIndex = new Map(processedFiles.map((file, index) => [file.id, index]));
+    const setRowStatus = (id: string, status: FileStatus, errorMessage?: string) => {
+      const i = rowIndex.get(id)!;
+      setProcessedFiles(prev => {
+        const next = [...prev];
+        next[i] = { ...next[i], status, errorMessage };
+        return next;
+      });
+    };
+
+    // Images are resized ahead in the worker pool while earlier ones are added to the archive
+    const prepared = new Map<string, Promise<ImageTaskResult | null>>();
+    let started = 0;
+    const prefetch = (reached: number) => {
+      while (started < executable.length && started < reached + config.concurrency * 2) {
+        const file = executable[started++];
+        const work = renamer.prepareContent(file, config);
+        work.catch(() => { }); // Reported when the file is added
+        prepared.set(file.id, work);
+      }
+    };
+
+    let added = 0;
+    for (const [index, file] of executable.entries()) {
+      prefetch(index + 1);
+      try {
+        const result = await prepared.get(file.id)!;
+        prepared.delete(file.id);
+        await zip.add(
+          renamer.getTargetPath(file, config),
+          result?.blob ?? file.fileObject,
+          result?.blob ? Date.now() : file.lastModified
+        );
+        setRowStatus(file.id, FileStatus.SUCCESS);
+        added++;
+      } catch (error) {
+        console.error("Adding to the archive failed for", file.originalName, error);
+        setRowStatus(file.id, FileStatus.ERROR, `Write failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      setProgress(((index + 1) / executable.length) * 100);
+    }
+
+    if (added > 0) {
+      downloadBlob(zip.finish(), `${source.rootName}-renamed.zip`);
+    }
+    setIsProcessing(false);
+  };
+
   // Execute Rename Logic (REAL)
   const handleRename = async () => {
     if (config.dryRun) {
@@ -123,6 +624,10 @@ const App: React.FC = () => {
       return;
     }
 
+    if (!dirHandle && upload) {
+      await handleDownloadZip(upload);
+      return;
+    }
     if (!dirHandle) {
       alert("No directory handle found. Please open folder again.");
       return;
@@ -131,48 +636,51 @@ const App: React.FC = () => {
     setIsProcessing(true);
     setProgress(0);
 
-    const queue = [...processedFiles];
-    const total = queue.length;
-    let successCount = 0;
+    // Journal of this batch, for undo. Saved before the first file and again after each one,
+    // so what was renamed before an interruption can still be reverted.
+    const batch = journal.createBatch(dirHandle);
+    const saveJournal = () => journal.saveBatch(batch).catch(err => console.error("Failed to save the undo journal:", err));
+    await saveJournal();
 
-    // Process files
-    for (let i = 0; i < total; i++) {
-      const file = queue[i];
+    const rowIndex = new Map(processedFiles.map((file, index) => [file.id, index]));
+    const executable = processedFiles.filter(file => file.status === FileStatus.PENDING).length;
+    let done = 0;
 
-      // Skip errors or files that shouldn't be touched
-      if (file.status !== FileStatus.ERROR) {
-        try {
-          await renamer.executeRename(file, dirHandle, config);
+    try {
+      await engine.execute(new DirectoryHandleAdapter(dirHandle), processedFiles, config, {
+        backupFolder: journal.getBackupFolder(batch.id),
+        onRow: async (row, entry) => {
+          if (entry) {
+            batch.entries.push(entry);
+            await saveJournal();
+          }
 
-          // Update state for success
-          setProcessedFiles(prev => {
-            const next = [...prev];
-            next[i] = { ...next[i], status: FileStatus.SUCCESS };
-            return next;
-          });
-          successCount++;
+          // The written file is upright now, running the batch again must not turn it twice
+          if (row.status === FileStatus.SUCCESS && row.transform) applyTransform([row], 'reset');
 
-        } catch (error) {
-          console.error("Rename failed for", file.originalName, error);
+          const i = rowIndex.get(row.id)!;
           setProcessedFiles(prev => {
             const next = [...prev];
-            next[i] = { ...next[i], status: FileStatus.ERROR, errorMessage: "Write/Move failed" };
+            next[i] = { ...next[i], status: row.status, errorMessage: row.errorMessage };
             return next;
           });
+          done++;
+          setProgress((done / executable) * 100);
         }
-      }
+      });
+    } catch (err) {
+      console.error("Rename failed:", err);
+    }
 
-      setProgress(((i + 1) / total) * 100);
+    try {
+      // A batch that wrote nothing has nothing to undo
+      if (batch.entries.length === 0) await journal.deleteBatch(batch.id);
+      setHistory(await journal.listBatches());
+    } catch (err) {
+      console.error("Failed to save the undo journal:", err);
     }
 
     setIsProcessing(false);
-
-    // If successful, we should probably re-scan or update the internal file list 
-    // to reflect new names so user doesn't rename same objects again immediately.
-    // For MVP, we alert completion.
-    if (successCount > 0) {
-      // Optional: Trigger a fresh scan or UI update here
-    }
   };
 
   return (
@@ -226,6 +734,7 @@ const App: React.FC = () => {
             <FolderOpen size={16} />
             {t.openFolder}
           </button>
+          <input ref={folderInput} type="file" multiple className="hidden" onChange={handleFolderInput} />
         </div>
       </header>
 
@@ -240,6 +749,18 @@ const App: React.FC = () => {
               <Settings size={14} /> {t.configTitle}
             </h2>
 
+            {/* Presets */}
+            <PresetPicker
+              presets={presets}
+              activeName={activePreset}
+              onApply={handleApplyPreset}
+              onSave={handleSavePreset}
+              onDelete={handleDeletePreset}
+              onExport={handleExportPresets}
+              onImport={handleImportPresets}
+              t={t}
+            />
+
             {/* Pattern Input */}
             <div className="mb-5">
               <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{t.patternLabel}</label>
@@ -247,16 +768,54 @@ const App: React.FC = () => {
                 type="text"
                 value={config.pattern}
                 onChange={(e) => setConfig({ ...config, pattern: e.target.value })}
-                className="w-full bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all placeholder-slate-400"
+                className={`w-full bg-gray-50 dark:bg-slate-900 border rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-primary focus:border-transparent outline-none transition-all placeholder-slate-400 ${patternErrors.length > 0 ? 'border-red-400 dark:border-red-500/70' : 'border-gray-300 dark:border-slate-700'}`}
                 placeholder="image_{num}"
               />
-              <div className="mt-2 text-[10px] text-slate-500 space-x-2">
-                <span className="bg-gray-200 dark:bg-slate-800 px-1.5 py-0.5 rounded cursor-help" title={t.seqTooltip}>{`{num}`}</span>
-                <span className="bg-gray-200 dark:bg-slate-800 px-1.5 py-0.5 rounded cursor-help" title={t.origTooltip}>{`{name}`}</span>
-                <span className="bg-gray-200 dark:bg-slate-800 px-1.5 py-0.5 rounded cursor-help" title={t.dateTooltip}>{`{date}`}</span>
+              {patternErrors.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {patternErrors.map((error, index) => (
+                    <li key={index} className="text-[11px] text-red-500 dark:text-red-400 flex items-start gap-1">
+                      <AlertCircle size={12} className="mt-0.5 shrink-0" /> {error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="mt-2 text-[10px] text-slate-500 flex flex-wrap gap-1.5">
+                {PATTERN_TOKENS.map(token => (
+                  <span
+                    key={token.name}
+                    className="bg-gray-200 dark:bg-slate-800 px-1.5 py-0.5 rounded cursor-help"
+                    title={t[token.tooltipKey as keyof typeof t]}
+                  >
+                    {`{${token.name}}`}
+                  </span>
+                ))}
               </div>
+              <p className="mt-2 text-[10px] text-slate-400 dark:text-slate-500 leading-relaxed">{t.patternModifiersHint}</p>
+              <p className="mt-1 text-[10px] text-slate-400 dark:text-slate-500 leading-relaxed">{t.patternFoldersHint}</p>
+              {nameMapping && (
+                <p className="mt-1 text-[11px] text-yellow-600 dark:text-yellow-500">{t.mappingOverridesPattern}</p>
+              )}
             </div>
 
+            {/* Rename Rules */}
+            <RulesEditor
+              rules={config.rules}
+              mode={config.ruleMode}
+              errors={ruleErrors}
+              onChange={(rules) => setConfig({ ...config, rules })}
+              onModeChange={(ruleMode) => setConfig({ ...config, ruleMode })}
+              t={t}
+            />
+
+            {/* Name Mapping */}
+            <MappingPanel
+              mapping={nameMapping}
+              onImport={handleImportMapping}
+              onClear={() => setMappingSource(null)}
+              t={t}
+            />
+
             {/* Sequence Start */}
             <div className="mb-5">
               <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{t.startNumLabel}</label>
@@ -268,6 +827,36 @@ const App: React.FC = () => {
               />
             </div>
 
+            {/* Batch Order */}
+            <div className="mb-5">
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{t.sortLabel}</label>
+              <div className="flex gap-2">
+                <select
+                  value={config.sortKey}
+                  onChange={(e) => handleSortKeyChange(e.target.value as SortKey)}
+                  className="flex-1 min-w-0 bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-primary outline-none"
+                >
+                  <option value="name">{t.sortName}</option>
+                  <option value="modified">{t.sortModified}</option>
+                  <option value="captureDate">{t.sortCaptureDate}</option>
+                  <option value="size">{t.sortSize}</option>
+                  <option value="dimensions">{t.sortDimensions}</option>
+                  <option value="manual">{t.sortManual}</option>
+                </select>
+                <button
+                  onClick={() => setConfig({ ...config, sortDirection: config.sortDirection === 'asc' ? 'desc' : 'asc' })}
+                  disabled={config.sortKey === 'manual'}
+                  title={config.sortDirection === 'asc' ? t.sortAscending : t.sortDescending}
+                  className="px-2.5 rounded-lg border border-gray-300 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:text-primary hover:border-primary disabled:opacity-40 disabled:hover:text-slate-600 disabled:hover:border-gray-300 transition-colors"
+                >
+                  {config.sortDirection === 'asc' ? <ArrowUpNarrowWide size={16} /> : <ArrowDownWideNarrow size={16} />}
+                </button>
+              </div>
+              {config.sortKey === 'manual' && (
+                <p className="mt-2 text-[10px] text-slate-400 dark:text-slate-500 leading-relaxed">{t.sortManualHint}</p>
+              )}
+            </div>
+
             {/* Prefix & Suffix grid */}
             <div className="grid grid-cols-2 gap-3 mb-5">
               <div>
@@ -301,12 +890,128 @@ const App: React.FC = () => {
               </label>
 
               <label className="flex items-center gap-3 cursor-pointer group">
-                <div className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${config.overwrite ? 'bg-red-500 border-red-500' : 'border-gray-400 dark:border-slate-600 bg-gray-100 dark:bg-slate-800'}`}>
-                  <input type="checkbox" className="hidden" checked={config.overwrite} onChange={(e) => setConfig({ ...config, overwrite: e.target.checked })} />
-                  {config.overwrite && <Check size={10} className="text-white" />}
+                <div className={`w-10 h-5 rounded-full relative transition-colors ${config.recursive ? 'bg-primary' : 'bg-gray-300 dark:bg-slate-700'}`}>
+                  <input type="checkbox" className="hidden" checked={config.recursive} disabled={isProcessing} onChange={(e) => handleRecursiveChange(e.target.checked)} />
+                  <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${config.recursive ? 'translate-x-5' : ''}`} />
                 </div>
-                <span className="text-sm text-slate-600 dark:text-slate-300 group-hover:text-slate-900 dark:group-hover:text-white transition-colors">{t.overwriteLabel}</span>
+                <span className="text-sm text-slate-600 dark:text-slate-300 group-hover:text-slate-900 dark:group-hover:text-white transition-colors">{t.recursiveLabel}</span>
               </label>
+
+              {config.recursive && (
+                <div className="pl-[52px]">
+                  <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{t.numberingScopeLabel}</label>
+                  <select
+                    value={config.numberingScope}
+                    onChange={(e) => setConfig({ ...config, numberingScope: e.target.value as NumberingScope })}
+                    className="w-full bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded px-2 py-1.5 text-xs text-slate-900 dark:text-white focus:ring-1 focus:ring-primary outline-none"
+                  >
+                    <option value="global">{t.numberingGlobal}</option>
+                    <option value="folder">{t.numberingFolder}</option>
+                  </select>
+                </div>
+              )}
+
+              {/* Conflict Policy */}
+              <div>
+                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{t.conflictPolicyLabel}</label>
+                <select
+                  value={config.conflictPolicy}
+                  onChange={(e) => setConfig({ ...config, conflictPolicy: e.target.value as ConflictPolicy })}
+                  className={`w-full bg-gray-50 dark:bg-slate-900 border rounded px-2 py-1.5 text-xs text-slate-900 dark:text-white focus:ring-1 focus:ring-primary outline-none ${config.conflictPolicy === 'overwrite' ? 'border-red-400 dark:border-red-500/70' : 'border-gray-300 dark:border-slate-700'}`}
+                >
+                  <option value="skip">{t.policySkip}</option>
+                  <option value="suffix">{t.policySuffix}</option>
+                  <option value="newer">{t.policyNewer}</option>
+                  <option value="larger">{t.policyLarger}</option>
+                  <option value="overwrite">{t.policyOverwrite}</option>
+                </select>
+
+                {config.conflictPolicy === 'suffix' && (
+                  <div className="grid grid-cols-2 gap-3 mt-2">
+                    <div>
+                      <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{t.suffixFormatLabel}</label>
+                      <input
+                        type="text"
+                        value={config.conflictSuffixFormat}
+                        onChange={(e) => setConfig({ ...config, conflictSuffixFormat: e.target.value })}
+                        className="w-full bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded px-2 py-1.5 text-xs font-mono text-slate-900 dark:text-white focus:ring-1 focus:ring-primary outline-none"
+                        placeholder="_{n}"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{t.suffixStartLabel}</label>
+                      <input
+                        type="number"
+                        value={config.conflictSuffixStart}
+                        onChange={(e) => setConfig({ ...config, conflictSuffixStart: parseInt(e.target.value) || 0 })}
+                        className="w-full bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded px-2 py-1.5 text-xs text-slate-900 dark:text-white focus:ring-1 focus:ring-primary outline-none"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <label className="flex items-center gap-2 mt-2 cursor-pointer text-xs text-slate-600 dark:text-slate-300" title={t.removeEmptyFoldersHint}>
+                  <input
+                    type="checkbox"
+                    checked={config.removeEmptyFolders}
+                    onChange={(e) => setConfig({ ...config, removeEmptyFolders: e.target.checked })}
+                    className="accent-primary"
+                  />
+                  {t.removeEmptyFoldersLabel}
+                </label>
+              </div>
+
+              {/* File Name Rules */}
+              <div>
+                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{t.targetPlatformLabel}</label>
+                <select
+                  value={config.targetPlatform}
+                  onChange={(e) => setConfig({ ...config, targetPlatform: e.target.value as TargetPlatform })}
+                  className="w-full bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded px-2 py-1.5 text-xs text-slate-900 dark:text-white focus:ring-1 focus:ring-primary outline-none"
+                >
+                  <option value="portable">{t.platformPortable}</option>
+                  <option value="windows">Windows</option>
+                  <option value="macos">macOS</option>
+                  <option value="linux">Linux</option>
+                </select>
+
+                <label className="flex items-center gap-2 mt-2 cursor-pointer text-xs text-slate-600 dark:text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={config.autoSanitize}
+                    onChange={(e) => setConfig({ ...config, autoSanitize: e.target.checked })}
+                    className="accent-primary"
+                  />
+                  {t.autoSanitizeLabel}
+                </label>
+                {config.autoSanitize && (
+                  <label className="flex items-center gap-2 mt-1.5 ml-5 cursor-pointer text-xs text-slate-600 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={config.transliterate}
+                      onChange={(e) => setConfig({ ...config, transliterate: e.target.checked })}
+                      className="accent-primary"
+                    />
+                    {t.transliterateLabel}
+                  </label>
+                )}
+              </div>
+            </div>
+
+            {/* Filters Section */}
+            <div className="mt-6 pt-6 border-t border-gray-200 dark:border-slate-800">
+              <h3 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+                <Filter size={14} /> {t.filterTitle}
+              </h3>
+              <FilterControls
+                settings={config}
+                extensions={fileExtensions}
+                active={filtersActive}
+                filteredCount={filteredFiles.size}
+                onChange={(changes) => setConfig({ ...config, ...changes })}
+                onClear={clearFilters}
+                t={t}
+              />
             </div>
 
             {/* Resize Section */}
@@ -315,6 +1020,27 @@ const App: React.FC = () => {
                 <Sliders size={14} /> {t.resizeLabel}
               </h3>
 
+              {/* Output Format */}
+              <div className="mb-4">
+                <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{t.outputFormatLabel}</label>
+                <select
+                  value={config.outputFormat}
+                  onChange={(e) => setConfig({ ...config, outputFormat: e.target.value as OutputFormat })}
+                  className={`w-full bg-gray-50 dark:bg-slate-900 border rounded px-2 py-1.5 text-xs text-slate-900 dark:text-white focus:ring-1 focus:ring-primary outline-none ${formatUnsupported ? 'border-red-400 dark:border-red-500/70' : 'border-gray-300 dark:border-slate-700'}`}
+                >
+                  <option value="keep">{t.formatKeep}</option>
+                  {(Object.keys(FORMAT_LABELS) as EncodableFormat[]).map(format => (
+                    <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+                {formatUnsupported && (
+                  <p className="mt-1 text-[11px] text-red-500 dark:text-red-400 flex items-start gap-1">
+                    <AlertCircle size={12} className="mt-0.5 shrink-0" />
+                    {t.formatUnsupported.replace('{format}', FORMAT_LABELS[config.outputFormat as EncodableFormat])}
+                  </p>
+                )}
+              </div>
+
               {/* Enable Resize Toggle */}
               <label className="flex items-center gap-3 cursor-pointer group mb-4">
                 <div className={`w-10 h-5 rounded-full relative transition-colors ${config.enableResize ? 'bg-primary' : 'bg-gray-300 dark:bg-slate-700'}`}>
@@ -324,29 +1050,33 @@ const App: React.FC = () => {
                 <span className="text-sm text-slate-600 dark:text-slate-300 group-hover:text-slate-900 dark:group-hover:text-white transition-colors">{t.resizeLabel}</span>
               </label>
 
-              {/* Resize Width Slider */}
+              {/* Privacy Mode Toggle */}
+              <label className="flex items-start gap-3 cursor-pointer group mb-4">
+                <div className={`w-10 h-5 shrink-0 rounded-full relative transition-colors ${config.privacyMode ? 'bg-primary' : 'bg-gray-300 dark:bg-slate-700'}`}>
+                  <input type="checkbox" className="hidden" checked={config.privacyMode} onChange={(e) => setConfig({ ...config, privacyMode: e.target.checked })} />
+                  <div className={`absolute top-1 left-1 w-3 h-3 bg-white rounded-full transition-transform ${config.privacyMode ? 'translate-x-5' : ''}`} />
+                </div>
+                <span>
+                  <span className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-300 group-hover:text-slate-900 dark:group-hover:text-white transition-colors">
+                    <ShieldCheck size={14} /> {t.privacyMode}
+                  </span>
+                  <span className="block text-[10px] text-slate-400 dark:text-slate-500 leading-relaxed">{t.privacyModeHint}</span>
+                </span>
+              </label>
+
+              {/* Resize Mode and Dimensions */}
               {config.enableResize && (
-                <div className="space-y-4 animate-in fade-in duration-300">
-                  <div>
-                    <div className="flex justify-between items-center mb-2">
-                      <label className="text-xs font-medium text-slate-500 dark:text-slate-400">{t.resizeSizeLabel}</label>
-                      <span className="text-xs font-mono bg-primary/10 text-primary px-2 py-0.5 rounded">{config.resizeWidth}px</span>
-                    </div>
-                    <input
-                      type="range"
-                      min="100"
-                      max="4000"
-                      step="50"
-                      value={config.resizeWidth}
-                      onChange={(e) => setConfig({ ...config, resizeWidth: parseInt(e.target.value) })}
-                      className="w-full h-2 bg-gray-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-primary"
-                    />
-                    <div className="flex justify-between text-[10px] text-slate-400 mt-1">
-                      <span>100px</span>
-                      <span>4000px</span>
-                    </div>
-                  </div>
+                <div className="animate-in fade-in duration-300">
+                  <ResizeControls
+                    settings={config}
+                    onChange={(changes) => setConfig({ ...config, ...changes })}
+                    t={t}
+                  />
+                </div>
+              )}
 
+              {(config.enableResize || config.outputFormat !== 'keep') && (
+                <div className="space-y-4 mt-4 animate-in fade-in duration-300">
                   {/* Quality Slider */}
                   <div>
                     <div className="flex justify-between items-center mb-2">
@@ -368,6 +1098,29 @@ const App: React.FC = () => {
                     </div>
                   </div>
 
+                  <MetadataControls
+                    settings={config}
+                    onChange={(changes) => setConfig({ ...config, ...changes })}
+                    t={t}
+                  />
+
+                  {/* Parallel Workers Slider */}
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <label className="text-xs font-medium text-slate-500 dark:text-slate-400">{t.concurrencyLabel}</label>
+                      <span className="text-xs font-mono bg-primary/10 text-primary px-2 py-0.5 rounded">{config.concurrency}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min="1"
+                      max="8"
+                      step="1"
+                      value={config.concurrency}
+                      onChange={(e) => setConfig({ ...config, concurrency: parseInt(e.target.value) })}
+                      className="w-full h-2 bg-gray-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-primary"
+                    />
+                  </div>
+
                   {/* Keep Originals Checkbox */}
                   <label className="flex items-center gap-3 cursor-pointer group">
                     <div className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${config.keepOriginals ? 'bg-green-500 border-green-500' : 'border-gray-400 dark:border-slate-600 bg-gray-100 dark:bg-slate-800'}`}>
@@ -383,15 +1136,33 @@ const App: React.FC = () => {
 
           {/* Stats Panel */}
           <div className="p-6">
-            <StatsPanel files={files} t={t} />
+            <StatsPanel
+              files={files}
+              excludedExtensions={config.excludedExtensions}
+              onToggleExtension={toggleExtension}
+              t={t}
+            />
           </div>
 
+          {/* Undo History */}
+          {history.length > 0 && (
+            <div className="px-6 pb-6">
+              <HistoryPanel
+                batches={history}
+                folderBatchIds={folderBatchIds}
+                disabled={isProcessing}
+                onRevert={handleRevert}
+                t={t}
+              />
+            </div>
+          )}
+
           {/* Action Button */}
           <div className="mt-auto p-6 bg-gray-50 dark:bg-slate-900/30 border-t border-gray-200 dark:border-slate-800">
             <button
               onClick={handleRename}
-              disabled={files.length === 0 || isProcessing}
-              className={`w-full py-3 rounded-xl font-semibold shadow-lg transition-all flex items-center justify-center gap-2 ${files.length === 0 || isProcessing
+              disabled={files.length === 0 || isProcessing || isScanning || formatUnsupported}
+              className={`w-full py-3 rounded-xl font-semibold shadow-lg transition-all flex items-center justify-center gap-2 ${files.length === 0 || isProcessing || isScanning || formatUnsupported
                 ? 'bg-gray-300 dark:bg-slate-800 text-gray-500 dark:text-slate-500 cursor-not-allowed'
                 : 'bg-primary hover:bg-blue-600 text-white hover:shadow-primary/20 hover:scale-[1.02] active:scale-[0.98]'
                 }`}
@@ -403,10 +1174,15 @@ const App: React.FC = () => {
               ) : (
                 <>
                   <Play size={18} fill="currentColor" />
-                  {config.dryRun ? t.simulateRename : t.startRename}
+                  {config.dryRun ? t.simulateRename : upload ? t.downloadZip : t.startRename}
                 </>
               )}
             </button>
+            {upload && (
+              <p className="mt-3 text-[11px] text-slate-500 dark:text-slate-400 flex items-start gap-1.5">
+                <Info size={12} className="shrink-0 mt-0.5" /> {t.uploadModeHint}
+              </p>
+            )}
             {isProcessing && (
               <div className="mt-3 w-full bg-gray-200 dark:bg-slate-800 h-1.5 rounded-full overflow-hidden">
                 <div
@@ -419,17 +1195,128 @@ const App: React.FC = () => {
         </aside>
 
         {/* Center: File List */}
-        <main className="flex-1 bg-gray-100 dark:bg-background/50 p-6 overflow-hidden flex flex-col transition-colors duration-300">
+        <main
+          className="relative flex-1 bg-gray-100 dark:bg-background/50 p-6 overflow-hidden flex flex-col transition-colors duration-300"
+          onDragOver={handleDragOver}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false);
+          }}
+          onDrop={handleDrop}
+        >
+          {isDragging && (
+            <div className="absolute inset-4 z-20 rounded-xl border-2 border-dashed border-primary bg-primary/10 backdrop-blur-sm flex items-center justify-center pointer-events-none">
+              <span className="flex items-center gap-2 text-primary font-medium">
+                <FolderOpen size={20} /> {t.dropHint}
+              </span>
+            </div>
+          )}
+          {scanStatus && (
+            <div className="mb-4 rounded-xl border border-gray-200 dark:border-slate-700/50 bg-white dark:bg-slate-800 px-4 py-3">
+              <div className="flex items-center justify-between gap-4 text-sm">
+                <span className="flex items-center gap-2 text-slate-600 dark:text-slate-300">
+                  <RefreshCw size={14} className="animate-spin text-primary" />
+                  {t.scanProgress
+                    .replace('{found}', scanStatus.found.toString())
+                    .replace('{read}', scanStatus.entriesRead.toString())}
+                </span>
+                <button
+                  onClick={handleCancelScan}
+                  className="px-3 py-1 rounded-lg text-xs font-medium border border-gray-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:border-red-400 hover:text-red-500 transition-colors"
+                >
+                  {t.scanCancel}
+                </button>
+              </div>
+              <div className="mt-2 w-full bg-gray-200 dark:bg-slate-700 h-1 rounded-full overflow-hidden">
+                <div className="bg-primary h-full w-1/3 animate-pulse" />
+              </div>
+            </div>
+          )}
           {files.length > 0 && (
             <div className="mb-4 flex items-center justify-between">
               <h2 className="text-xl font-light text-slate-800 dark:text-white">{t.previewTitle}</h2>
-              <div className="flex items-center gap-2 text-xs text-slate-500">
-                <Info size={14} />
-                <span>{t.modifying} {files.length} {t.files}</span>
+              <div className="flex items-center gap-4 text-xs text-slate-500">
+                {selectedIds.size > 0 && (
+                  <label className="flex items-center gap-2 cursor-pointer text-slate-600 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={selectedOnly}
+                      disabled={isProcessing}
+                      onChange={(e) => setSelectedOnly(e.target.checked)}
+                      className="accent-primary"
+                    />
+                    {t.selectedOnly.replace('{count}', selectedIds.size.toString())}
+                  </label>
+                )}
+                <div className="flex items-center gap-0.5" title={t.transformBatchHint}>
+                  {([
+                    ['rotateLeft', <RotateCcw size={14} />],
+                    ['rotateRight', <RotateCw size={14} />],
+                    ['rotate180', <span className="font-mono">180°</span>],
+                    ['flipHorizontal', <FlipHorizontal2 size={14} />],
+                    ['flipVertical', <FlipVertical2 size={14} />],
+                    ['reset', <X size={14} />],
+                  ] as [TransformAction, React.ReactNode][]).map(([action, icon]) => (
+                    <button
+                      key={action}
+                      onClick={() => handleBatchTransform(action)}
+                      disabled={isProcessing || (action === 'reset' && transforms.size === 0)}
+                      title={t[action === 'reset' ? 'transformReset' : action]}
+                      className="p-1 rounded hover:text-primary hover:bg-white dark:hover:bg-slate-800 disabled:opacity-40 transition-colors"
+                    >
+                      {icon}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1">
+                  {(['csv', 'json'] as const).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => handleExportPlan(format)}
+                      disabled={processedFiles.length === 0}
+                      title={t.exportPlan}
+                      className="px-2 py-1 rounded flex items-center gap-1 uppercase hover:text-primary hover:bg-white dark:hover:bg-slate-800 disabled:opacity-40 transition-colors"
+                    >
+                      <Download size={12} /> {format}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Info size={14} />
+                  <span>{t.modifying} {files.length} {t.files}</span>
+                </div>
               </div>
             </div>
           )}
-          <FileList files={processedFiles} t={t} />
+          <div className="flex-1 min-h-0 flex gap-6">
+            <div className="flex-1 min-w-0">
+              <FileList
+                files={processedFiles}
+                selectedIds={selectedIds}
+                onSelectionChange={isProcessing ? undefined : handleSelectionChange}
+                onOverride={isProcessing ? undefined : handleOverride}
+                onReorder={isProcessing ? undefined : handleReorder}
+                onTransform={isProcessing ? undefined : handleTransform}
+                t={t}
+              />
+            </div>
+            {files.length > 0 && (
+              <div className="w-80 shrink-0">
+                <DuplicatesPanel
+                  groups={duplicateGroups}
+                  analyzing={isAnalyzing}
+                  progress={analyzeProgress}
+                  threshold={duplicateThreshold}
+                  excludeDuplicates={excludeDuplicates}
+                  disabled={isProcessing}
+                  onAnalyze={handleFindDuplicates}
+                  onThresholdChange={setDuplicateThreshold}
+                  onExcludeChange={setExcludeDuplicates}
+                  onMoveDuplicates={dirHandle ? handleMoveDuplicates : undefined}
+                  t={t}
+                />
+              </div>
+            )}
+          </div>
         </main>
 
       </div>
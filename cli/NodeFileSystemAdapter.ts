@@ -0,0 +1,101 @@
+import { openAsBlob, promises as fs } from 'node:fs';
+import path from 'node:path';
+import { AdapterEntry, AdapterFile, FileSystemAdapter } from '../services/FileSystemAdapter';
+
+/**
+ * Adapter over a folder on disk.
+ */
+export class NodeFileSystemAdapter implements FileSystemAdapter {
+  constructor(private root: string) { }
+
+  public get rootName(): string {
+    return path.basename(path.resolve(this.root));
+  }
+
+  /**
+   * Fails unless the root exists and is a folder.
+   */
+  public async check(): Promise<void> {
+    const stats = await fs.stat(this.root);
+    if (!stats.isDirectory()) {
+      throw new Error(`${this.root} is not a folder`);
+    }
+  }
+
+  public async *list(directory: string): AsyncIterable<AdapterEntry> {
+    const dir = await fs.opendir(this.resolve(directory));
+    for await (const entry of dir) {
+      // Symbolic links and special files are skipped
+      if (entry.isDirectory()) {
+        yield { name: entry.name, kind: 'directory' };
+      } else if (entry.isFile()) {
+        yield { name: entry.name, kind: 'file' };
+      }
+    }
+  }
+
+  public async open(relativePath: string): Promise<AdapterFile> {
+    const fullPath = this.resolve(relativePath);
+    const stats = await fs.stat(fullPath);
+    // openAsBlob reads lazily, so the scanner's header slices don't load whole files
+    const blob = await openAsBlob(fullPath);
+    return { file: new File([blob], path.basename(fullPath), { lastModified: stats.mtimeMs }) };
+  }
+
+  public async move(directory: string, from: string, to: string, overwrite = false, targetDirectory?: string): Promise<void> {
+    const source = this.resolve(directory, from);
+    const target = this.resolve(targetDirectory ?? directory, to);
+    if (targetDirectory !== undefined) {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+    }
+
+    if (!overwrite) {
+      const [sourceStats, targetStats] = await Promise.all([
+        fs.stat(source),
+        fs.stat(target).catch(() => null)
+      ]);
+      // Same inode: a case-only rename on a case-insensitive file system
+      const sameFile = targetStats && targetStats.ino === sourceStats.ino && targetStats.dev === sourceStats.dev;
+      if (targetStats && !sameFile) {
+        throw new Error(`"${to}" already exists`);
+      }
+    }
+    await fs.rename(source, target);
+  }
+
+  public async write(relativePath: string, content: Blob): Promise<void> {
+    const target = this.resolve(relativePath);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // Written next to the target first, so an interrupted write never leaves half a file under its name
+    const temp = path.join(path.dirname(target), `.${path.basename(target)}.${process.pid}.tmp`);
+    try {
+      await fs.writeFile(temp, new Uint8Array(await content.arrayBuffer()));
+      await fs.rename(temp, target);
+    } catch (error) {
+      await fs.rm(temp, { force: true });
+      throw error;
+    }
+  }
+
+  public async remove(relativePath: string): Promise<void> {
+    await fs.unlink(this.resolve(relativePath));
+  }
+
+  public async removeEmptyDirectory(relativePath: string): Promise<boolean> {
+    try {
+      await fs.rmdir(this.resolve(relativePath));
+      return true;
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOTEMPTY' || code === 'EEXIST' || code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Absolute path of a '/'-separated path relative to the root.
+   */
+  private resolve(...parts: string[]): string {
+    return path.join(this.root, ...parts.flatMap(part => part ? part.split('/') : []));
+  }
+}
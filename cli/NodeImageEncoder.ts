@@ -0,0 +1,127 @@
+import { ImageEncoder, ImageTask, ImageTaskResult } from '../services/ImageResizer';
+import { computeResizeGeometry } from '../utils/resizeGeometry';
+import {
+  METADATA_MIME_TYPES, applyMetadataSettings, readMetadata, stripPrivateBlocks, stripPrivateMetadata, writeMetadata
+} from '../utils/imageMetadata';
+import { isIdentity } from '../utils/orientation';
+
+// Output types, as sharp names their encoders
+const SHARP_FORMATS: Record<string, string> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+};
+
+interface RawImage {
+  data: Buffer;
+  info: { width: number; height: number; channels: number };
+}
+
+/**
+ * Image tasks for the CLI, the counterpart of workers/imageWorker.ts.
+ * Decoding and encoding use sharp, an optional dependency. Without it, only privacy mode
+ * runs, since it rewrites metadata without decoding.
+ */
+export class NodeImageEncoder implements ImageEncoder {
+  public readonly decodes: boolean;
+
+  // The sharp module; typed loosely, the package may not be installed
+  private constructor(private sharp: any) {
+    this.decodes = sharp !== null;
+  }
+
+  /**
+   * Loads sharp when it is installed.
+   */
+  public static async create(): Promise<NodeImageEncoder> {
+    // Not a literal, so neither the type-check nor the build need the package
+    const name = 'sharp';
+    const sharp = await import(/* @vite-ignore */ name).then(module => module.default, () => null);
+    return new NodeImageEncoder(sharp);
+  }
+
+  // sharp runs on the libuv thread pool, which bounds the work already
+  public setConcurrency(): void { }
+
+  public terminate(): void { }
+
+  public async process(file: Blob, task: Omit<ImageTask, 'file'>): Promise<ImageTaskResult> {
+    if (!task.resize && !task.convert && !task.transform) {
+      return this.keepContent(file, task, task.width ?? 0, task.height ?? 0);
+    }
+    if (!this.sharp) {
+      throw new Error('Resizing and conversion need the sharp package');
+    }
+    const format = SHARP_FORMATS[task.mimeType];
+    if (!format) {
+      throw new Error(`Cannot encode ${task.mimeType} images`);
+    }
+
+    const blocks = METADATA_MIME_TYPES.includes(task.mimeType) ? await readMetadata(file) : {};
+    const metadata = task.privacy ? stripPrivateBlocks(blocks) : blocks;
+
+    // When the profile is copied, the pixels stay in its color space instead of being
+    // converted to sRGB. The orientation is applied, so the output is upright without its tag.
+    const keepProfile = metadata.icc !== undefined && task.metadata.iccMode === 'keep';
+    let source = await this.toRaw(this.sharp(Buffer.from(await file.arrayBuffer())).rotate(), keepProfile);
+
+    if (task.transform && !isIdentity(task.transform)) {
+      // sharp flops after rotating while the canvas flips first, so a mirrored turn goes the other way
+      const { rotate, flip } = task.transform;
+      source = await this.toRaw(this.fromRaw(source).rotate(flip ? (360 - rotate) % 360 : rotate).flop(flip));
+    }
+
+    // Sizes are computed on the upright picture, so limits apply to the edges as seen
+    const { width: sourceWidth, height: sourceHeight } = source.info;
+    const geometry = task.resize ? computeResizeGeometry(sourceWidth, sourceHeight, task.resize) : null;
+    if (!geometry && !task.convert && !task.transform) {
+      return this.keepContent(file, task, sourceWidth, sourceHeight);
+    }
+
+    const { sx, sy, sw, sh, width, height } = geometry ?? {
+      sx: 0, sy: 0, sw: sourceWidth, sh: sourceHeight, width: sourceWidth, height: sourceHeight
+    };
+
+    let image = this.fromRaw(source);
+    if (sw !== sourceWidth || sh !== sourceHeight) {
+      image = image.extract({ left: sx, top: sy, width: sw, height: sh });
+    }
+    if (width !== sw || height !== sh) {
+      image = image.resize(width, height, { fit: 'fill' });
+    }
+    // JPEG has no alpha channel, flatten transparent sources onto white
+    if (task.mimeType === 'image/jpeg') {
+      image = image.flatten({ background: '#ffffff' });
+    }
+
+    const encoded: Buffer = await image.toFormat(format, { quality: task.quality }).toBuffer();
+    const blob = await writeMetadata(
+      new Blob([new Uint8Array(encoded)], { type: task.mimeType }),
+      applyMetadataSettings(metadata, task.metadata, width, height)
+    );
+    return { blob, resized: geometry !== null, width, height };
+  }
+
+  // The file as it is, or without its private metadata in privacy mode
+  private async keepContent(file: Blob, task: Omit<ImageTask, 'file'>, width: number, height: number): Promise<ImageTaskResult> {
+    return {
+      blob: task.privacy ? await stripPrivateMetadata(file) : null,
+      resized: false,
+      width,
+      height
+    };
+  }
+
+  // Decoded 8-bit pixels, so every step works on what the browser would draw
+  private async toRaw(image: any, keepProfile = false): Promise<RawImage> {
+    const { data, info } = await (keepProfile ? image.keepIccProfile() : image)
+      .raw({ depth: 'uchar' })
+      .toBuffer({ resolveWithObject: true });
+    return { data, info: { width: info.width, height: info.height, channels: info.channels } };
+  }
+
+  private fromRaw({ data, info }: RawImage): any {
+    return this.sharp(data, { raw: info });
+  }
+}
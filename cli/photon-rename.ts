@@ -0,0 +1,202 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { FileStatus, ProcessedFile, RenameConfig } from '../types';
+import { DEFAULT_CONFIG } from '../utils/defaultConfig';
+import { ImageRenamer } from '../services/ImageRenamer';
+import { PresetStore } from '../services/PresetStore';
+import { PlanTransfer } from '../services/PlanTransfer';
+import { RenameEngine } from '../services/RenameEngine';
+import { NodeFileSystemAdapter } from './NodeFileSystemAdapter';
+import { NodeImageEncoder } from './NodeImageEncoder';
+
+/**
+ * photon-rename
+ * Renames the images of a folder with the same settings and naming as the web app.
+ * Settings come from a presets file exported by the app, from flags, or both (flags win).
+ */
+
+type OptionSpec = { type: 'string' | 'boolean'; multiple?: boolean; short?: string };
+
+// Every config field is a flag in kebab case: startNumber -> --start-number
+const toFlag = (field: string): string => field.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+const CONFIG_FIELDS = Object.keys(DEFAULT_CONFIG) as (keyof RenameConfig)[];
+
+const OPTIONS: Record<string, OptionSpec> = {
+  preset: { type: 'string' },
+  'preset-name': { type: 'string' },
+  plan: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+};
+for (const field of CONFIG_FIELDS) {
+  const value = DEFAULT_CONFIG[field];
+  if (typeof value === 'boolean') {
+    OPTIONS[toFlag(field)] = { type: 'boolean' };
+    OPTIONS[`no-${toFlag(field)}`] = { type: 'boolean' };
+  } else if (Array.isArray(value) && field !== 'rules') {
+    OPTIONS[toFlag(field)] = { type: 'string', multiple: true }; // Repeat the flag for each value
+  } else {
+    OPTIONS[toFlag(field)] = { type: 'string' };
+  }
+}
+
+const USAGE = `Usage: photon-rename <folder> [options]
+
+Options:
+  --preset <file>        Presets file exported from the web app
+  --preset-name <name>   Preset to use when the file holds several
+  --dry-run              Print the plan without renaming anything
+  --recursive            Include subfolders
+  --plan <file>          Write the plan (.csv or .json) after the run
+  -h, --help             Show this help
+
+Every setting of the web app is also a flag, taking precedence over the preset:
+${CONFIG_FIELDS.map(field => {
+  const value = DEFAULT_CONFIG[field];
+  const shown = field === 'rules' ? '<json>' : Array.isArray(value) ? '<value>... (repeatable)' : JSON.stringify(value);
+  return `  --${toFlag(field)}${typeof value === 'boolean' ? ` / --no-${toFlag(field)}` : ''}  (default ${shown})`;
+}).join('\n')}
+
+Sizes are in bytes, dates are YYYY-MM-DD.
+Exit status: 0 on success, 1 when some files failed, 2 on invalid settings or an unreadable folder.`;
+
+class UsageError extends Error { }
+
+/**
+ * Config fields set on the command line, converted from their string form.
+ * Values that don't convert are passed on as is so validation names the field.
+ */
+const readFlags = (values: Record<string, string | boolean | (string | boolean)[] | undefined>): Record<string, unknown> => {
+  const flags: Record<string, unknown> = {};
+
+  for (const field of CONFIG_FIELDS) {
+    const flag = toFlag(field);
+    const value = values[flag];
+    const defaultValue = DEFAULT_CONFIG[field];
+
+    if (typeof defaultValue === 'boolean') {
+      if (values[`no-${flag}`]) flags[field] = false;
+      else if (value) flags[field] = true;
+      continue;
+    }
+    if (value === undefined) continue;
+
+    if (field === 'rules') {
+      try {
+        flags[field] = JSON.parse(value as string);
+      } catch {
+        throw new UsageError(`--${flag}: expected a JSON list of rules`);
+      }
+    } else if (typeof defaultValue === 'number') {
+      const number = Number(value);
+      flags[field] = value !== '' && !Number.isNaN(number) ? number : value;
+    } else {
+      flags[field] = value;
+    }
+  }
+  return flags;
+};
+
+const loadPreset = async (file: string, name: string | undefined): Promise<RenameConfig> => {
+  const { presets, errors } = new PresetStore().parse(await readFile(file, 'utf8'));
+  if (errors.length > 0) {
+    throw new UsageError(`${file}: ${errors.join('; ')}`);
+  }
+
+  const names = presets.map(preset => preset.name).join(', ');
+  if (name !== undefined) {
+    const preset = presets.find(p => p.name === name);
+    if (!preset) throw new UsageError(`${file} has no preset named "${name}" (found: ${names})`);
+    return preset.config;
+  }
+  if (presets.length !== 1) {
+    throw new UsageError(`${file} holds ${presets.length} presets, pick one with --preset-name (found: ${names})`);
+  }
+  return presets[0].config;
+};
+
+const printPlan = (files: ProcessedFile[], config: RenameConfig) => {
+  const renamer = new ImageRenamer();
+  const width = Math.min(60, Math.max(0, ...files.map(file => file.path.length)));
+
+  for (const file of files) {
+    const detail = file.status === FileStatus.PENDING || file.status === FileStatus.SUCCESS
+      ? `-> ${renamer.getTargetPath(file, config)}`
+      : `   ${file.errorMessage ?? ''}`;
+    console.log(`${file.status.padEnd(7)}  ${file.path.padEnd(width)} ${detail}`);
+  }
+};
+
+const main = async (args: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({ args, options: OPTIONS, allowPositionals: true, strict: true });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) {
+    throw new UsageError('Expected exactly one folder');
+  }
+
+  const base = typeof values.preset === 'string'
+    ? await loadPreset(values.preset, values['preset-name'] as string | undefined)
+    : DEFAULT_CONFIG;
+  const { config, errors } = new PresetStore().validateConfig(readFlags(values), base);
+  if (!config) {
+    throw new UsageError(errors.map(error => error.replace(/^config\./, '')).join('\n'));
+  }
+
+  const encoder = await NodeImageEncoder.create();
+  const engine = new RenameEngine(new ImageRenamer(encoder));
+  const unsupported = engine.getUnsupported(config);
+  if (unsupported.length > 0) {
+    if (!encoder.decodes) unsupported.push('Install the optional sharp package (npm install sharp) to resize and convert images');
+    if (!config.dryRun) throw new UsageError(unsupported.join('\n'));
+    unsupported.forEach(message => console.warn(`Warning: ${message}`));
+  }
+
+  const adapter = new NodeFileSystemAdapter(positionals[0]);
+  await adapter.check();
+
+  const scan = await engine.scan(adapter, config);
+  let files = engine.preview(scan, config);
+  let removedFolders: string[] = [];
+  if (!config.dryRun) {
+    ({ files, removedFolders } = await engine.execute(adapter, files, config));
+  }
+
+  printPlan(files, config);
+  removedFolders.forEach(folder => console.log(`Removed empty folder ${folder}`));
+  const count = (status: FileStatus) => files.filter(file => file.status === status).length;
+  const failed = count(FileStatus.ERROR);
+  // Pending rows that keep their name and folder have nothing to rename
+  const renamer = new ImageRenamer();
+  const toRename = files.filter(file => file.status === FileStatus.PENDING && renamer.getTargetPath(file, config) !== file.path).length;
+  console.log(config.dryRun
+    ? `\nDry run: ${toRename} to rename, ${count(FileStatus.PENDING) - toRename} unchanged, ${count(FileStatus.SKIPPED)} skipped, ${failed} with errors`
+    : `\n${count(FileStatus.SUCCESS)} renamed, ${count(FileStatus.SKIPPED)} skipped, ${failed} failed`);
+
+  if (typeof values.plan === 'string') {
+    const transfer = new PlanTransfer();
+    const plan = path.extname(values.plan).toLowerCase() === '.json'
+      ? transfer.toJson(files, config, adapter.rootName)
+      : transfer.toCsv(files, config);
+    await writeFile(values.plan, plan);
+  }
+
+  return failed > 0 ? 1 : 0;
+};
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  (error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`photon-rename: ${message}`);
+    const code = (error as { code?: unknown } | null)?.code;
+    if (error instanceof UsageError || (typeof code === 'string' && code.startsWith('ERR_PARSE_ARGS'))) {
+      console.error('Run photon-rename --help for the list of options.');
+    }
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,125 @@
+import React from 'react';
+import { Copy, FolderInput, RefreshCw, Search } from 'lucide-react';
+import { DuplicateGroup, ImageFile } from '../types';
+import { formatBytes } from '../utils/formatters';
+import Thumbnail from './Thumbnail';
+
+interface DuplicatesPanelProps {
+  groups: DuplicateGroup[] | null; // null until the files were analyzed
+  analyzing: boolean;
+  progress: number; // 0-100 while analyzing
+  threshold: number; // Maximum dHash distance in bits
+  excludeDuplicates: boolean;
+  disabled: boolean;
+  onAnalyze: () => void;
+  onThresholdChange: (threshold: number) => void;
+  onExcludeChange: (exclude: boolean) => void;
+  onMoveDuplicates?: () => void; // Not available for uploaded folders
+  t: any;
+}
+
+const FileRow: React.FC<{ file: ImageFile; keeper?: boolean; t: any }> = ({ file, keeper, t }) => (
+  <li className="flex items-center gap-2 text-xs">
+    <Thumbnail file={file} className="w-8 h-8 shrink-0" />
+    <div className="min-w-0">
+      <p className={`truncate ${keeper ? 'text-slate-800 dark:text-slate-200' : 'text-slate-500 dark:text-slate-400'}`} title={file.path}>
+        {file.path}
+      </p>
+      <p className="text-[10px] text-slate-400">
+        {formatBytes(file.size)}
+        {keeper && <span className="ml-1 text-green-600 dark:text-green-400">· {t.duplicateKeeper}</span>}
+      </p>
+    </div>
+  </li>
+);
+
+const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({
+  groups, analyzing, progress, threshold, excludeDuplicates, disabled,
+  onAnalyze, onThresholdChange, onExcludeChange, onMoveDuplicates, t
+}) => {
+  const duplicateCount = groups?.reduce((sum, group) => sum + group.duplicates.length, 0) ?? 0;
+
+  return (
+    <div className="flex flex-col h-full bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700/50 overflow-hidden shadow-sm dark:shadow-lg transition-colors duration-300">
+      <div className="p-4 border-b border-gray-200 dark:border-slate-700 space-y-3">
+        <h3 className="text-slate-500 dark:text-slate-400 text-xs font-bold uppercase tracking-wider flex items-center gap-2">
+          <Copy size={14} /> {t.duplicatesTitle}
+        </h3>
+
+        <button
+          onClick={onAnalyze}
+          disabled={analyzing || disabled}
+          className="w-full py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors border border-primary/40 text-primary hover:bg-primary/10 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+        >
+          {analyzing
+            ? <><RefreshCw size={14} className="animate-spin" /> {Math.round(progress)}%</>
+            : <><Search size={14} /> {groups ? t.duplicatesRescan : t.duplicatesFind}</>}
+        </button>
+
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <label className="text-xs font-medium text-slate-500 dark:text-slate-400">{t.similarityLabel}</label>
+            <span className="text-xs font-mono bg-primary/10 text-primary px-2 py-0.5 rounded">{threshold}</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="16"
+            step="1"
+            value={threshold}
+            onChange={(e) => onThresholdChange(parseInt(e.target.value))}
+            className="w-full h-2 bg-gray-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-primary"
+          />
+          <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+            <span>{t.similarityExact}</span>
+            <span>{t.similarityLoose}</span>
+          </div>
+        </div>
+
+        {groups && groups.length > 0 && (
+          <>
+            <label className="flex items-center gap-2 cursor-pointer text-xs text-slate-600 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={excludeDuplicates}
+                onChange={(e) => onExcludeChange(e.target.checked)}
+                className="accent-primary"
+              />
+              {t.excludeDuplicates}
+            </label>
+            {onMoveDuplicates && (
+              <button
+                onClick={onMoveDuplicates}
+                disabled={disabled}
+                className="w-full py-1.5 rounded-lg text-xs font-medium flex items-center justify-center gap-2 transition-colors border border-gray-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <FolderInput size={14} /> {t.moveDuplicates.replace('{count}', duplicateCount.toString())}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        {groups && groups.length === 0 && (
+          <p className="text-xs text-slate-500 text-center">{t.noDuplicates}</p>
+        )}
+        <ul className="space-y-4">
+          {groups?.map(group => (
+            <li key={group.id} className="space-y-2">
+              <p className="text-[10px] font-semibold uppercase tracking-wider text-slate-400">
+                {group.kind === 'exact' ? t.duplicateExact : t.duplicateSimilar}
+              </p>
+              <ul className="space-y-1.5">
+                <FileRow file={group.keeper} keeper t={t} />
+                {group.duplicates.map(file => <FileRow key={file.id} file={file} t={t} />)}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesPanel;
@@ -1,15 +1,181 @@
 
-import React from 'react';
-import { ProcessedFile, FileStatus } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ProcessedFile, FileStatus, ConflictPolicy } from '../types';
 import { formatBytes, formatDate } from '../utils/formatters';
-import { FileImage, AlertCircle, CheckCircle, ArrowRight, CircleDashed } from 'lucide-react';
+import { TransformAction } from '../utils/orientation';
+import Thumbnail from './Thumbnail';
+import { FileImage, AlertCircle, CheckCircle, ArrowRight, CircleDashed, GripVertical, Pencil, X, RotateCcw, RotateCw, FlipHorizontal2, MapPin, Folder } from 'lucide-react';
+
+// Translation keys of the conflict policy badges
+const POLICY_LABELS: Record<ConflictPolicy, string> = {
+  skip: 'policySkip',
+  suffix: 'policySuffix',
+  newer: 'policyNewer',
+  larger: 'policyLarger',
+  overwrite: 'policyOverwrite',
+};
+
+// Quick edits shown on a hovered row; the batch toolbar has the others
+const ROW_TRANSFORMS: { action: TransformAction; icon: React.ElementType }[] = [
+  { action: 'rotateLeft', icon: RotateCcw },
+  { action: 'rotateRight', icon: RotateCw },
+  { action: 'flipHorizontal', icon: FlipHorizontal2 },
+];
+
+// Rows have fixed heights, so the visible slice follows from the scroll position
+const ROW_HEIGHT = 64;
+const FOLDER_HEIGHT = 32;
+const OVERSCAN = 8;
+
+// Lines of the list: files, and folder headers when files move into folders
+type ListItem =
+  | { type: 'file'; file: ProcessedFile; index: number } // index: position in the batch
+  | { type: 'folder'; path: string; count: number };
+
+const folderCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Lines in display order. Once a file moves into another folder, files are grouped by the
+ * folder they end up in; rows that aren't renamed stay with their current folder.
+ */
+const getListItems = (files: ProcessedFile[]): ListItem[] => {
+  const items: ListItem[] = files.map((file, index) => ({ type: 'file', file, index }));
+  if (!files.some(file => file.targetDirectory !== undefined)) return items;
+
+  const groups = new Map<string, ListItem[]>();
+  for (const item of items) {
+    const { file } = item as Extract<ListItem, { type: 'file' }>;
+    const renamed = file.status === FileStatus.PENDING || file.status === FileStatus.SUCCESS;
+    const path = renamed ? file.targetDirectory ?? file.directory : file.directory;
+    groups.set(path, [...(groups.get(path) ?? []), item]);
+  }
+
+  return [...groups]
+    .sort(([a], [b]) => folderCollator.compare(a, b))
+    .flatMap(([path, group]) => [{ type: 'folder', path, count: group.length } as ListItem, ...group]);
+};
+
+/**
+ * Range of rows to render for a scrolled list, with a few rows of margin on each side.
+ * @param offsets - Top of every row, followed by the total height
+ */
+const useVirtualRows = (offsets: number[]) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const count = offsets.length - 1;
+  const hasRows = count > 0;
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+    setViewportHeight(element.clientHeight);
+    return () => observer.disconnect();
+  }, [hasRows]);
+
+  // Last row starting at or above a position
+  const rowAt = (position: number) => {
+    let low = 0;
+    let high = count - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (offsets[middle] <= position) low = middle;
+      else high = middle - 1;
+    }
+    return low;
+  };
+
+  const start = Math.max(0, rowAt(scrollTop) - OVERSCAN);
+  const end = Math.min(count, rowAt(scrollTop + viewportHeight) + 1 + OVERSCAN);
+
+  return {
+    containerRef,
+    onScroll: (e: React.UIEvent<HTMLDivElement>) => setScrollTop(e.currentTarget.scrollTop),
+    start,
+    end
+  };
+};
 
 interface FileListProps {
   files: ProcessedFile[];
+  selectedIds?: Set<string>;
+  onSelectionChange?: (ids: string[], selected: boolean) => void; // Rows have checkboxes when set
+  onOverride?: (file: ProcessedFile, name: string | null) => void; // New names can be edited when set; null removes the override
+  onReorder?: (fromId: string, toId: string) => void; // Rows can be dragged when set
+  onTransform?: (file: ProcessedFile, action: TransformAction) => void; // Rows can be rotated and flipped when set
   t: any;
 }
 
-const FileList: React.FC<FileListProps> = ({ files, t }) => {
+// Rows left out before naming (filters, mapping, selection) have no name to edit
+const isEditable = (file: ProcessedFile) =>
+  file.status !== FileStatus.SUCCESS && (file.status !== FileStatus.SKIPPED || !!file.resolution);
+
+const FileList: React.FC<FileListProps> = ({ files, selectedIds, onSelectionChange, onOverride, onReorder, onTransform, t }) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; value: string } | null>(null);
+  // Enter and Escape end an edit before the input loses focus, which must not commit it again
+  const editClosed = useRef(false);
+  // Last clicked checkbox, the start of a shift-click range
+  const anchorId = useRef<string | null>(null);
+
+  const items = useMemo(() => getListItems(files), [files]);
+  const offsets = useMemo(() => {
+    const tops = [0];
+    items.forEach(item => tops.push(tops[tops.length - 1] + (item.type === 'folder' ? FOLDER_HEIGHT : ROW_HEIGHT)));
+    return tops;
+  }, [items]);
+
+  const toggleSelection = (id: string, range: boolean) => {
+    if (!onSelectionChange) return;
+    const selected = !selectedIds?.has(id);
+    // Ranges follow the rows as displayed, grouped or not
+    const shown = items.flatMap(item => item.type === 'file' ? [item.file.id] : []);
+    const from = range && anchorId.current ? shown.indexOf(anchorId.current) : -1;
+    const to = shown.indexOf(id);
+    const ids = from === -1
+      ? [id]
+      : shown.slice(Math.min(from, to), Math.max(from, to) + 1);
+
+    anchorId.current = id;
+    onSelectionChange(ids, selected);
+  };
+
+  // Names typed with folders start from the picked folder, like the pattern
+  const getEditValue = (file: ProcessedFile) =>
+    file.targetDirectory ? `${file.targetDirectory}/${file.newName}` : file.newName;
+
+  const startEdit = (file: ProcessedFile) => {
+    editClosed.current = false;
+    setEditing({ id: file.id, value: getEditValue(file) });
+  };
+
+  const cancelEdit = () => {
+    editClosed.current = true;
+    setEditing(null);
+  };
+
+  const commitEdit = (file: ProcessedFile) => {
+    if (!editing || !onOverride || editClosed.current) return;
+    const value = editing.value.trim();
+    cancelEdit();
+    if (value === getEditValue(file)) return;
+    // An empty name goes back to the generated one
+    onOverride(file, value === '' ? null : value);
+  };
+
+  const { containerRef, onScroll, start, end } = useVirtualRows(offsets);
+
+  const allSelected = !!selectedIds && files.length > 0 && files.every(file => selectedIds.has(file.id));
+
+  const endDrag = () => {
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
   if (files.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-slate-400 dark:text-slate-500">
@@ -24,7 +190,18 @@ const FileList: React.FC<FileListProps> = ({ files, t }) => {
     <div className="flex flex-col h-full bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700/50 overflow-hidden shadow-sm dark:shadow-lg transition-colors duration-300">
       {/* Table Header */}
       <div className="grid grid-cols-12 gap-4 px-6 py-3 bg-gray-50 dark:bg-slate-900/50 border-b border-gray-200 dark:border-slate-700 text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
-        <div className="col-span-1">{t.headerIndex}</div>
+        <div className="col-span-1 flex items-center gap-2">
+          {onSelectionChange && (
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => onSelectionChange(files.map(file => file.id), !allSelected)}
+              title={t.selectAll}
+              className="accent-primary"
+            />
+          )}
+          {t.headerIndex}
+        </div>
         <div className="col-span-1">{t.headerPreview}</div>
         <div className="col-span-4">{t.headerOriginal}</div>
         <div className="col-span-1 text-center">→</div>
@@ -32,64 +209,205 @@ const FileList: React.FC<FileListProps> = ({ files, t }) => {
         <div className="col-span-1 text-right">{t.headerSize}</div>
       </div>
 
-      {/* Table Body */}
-      <div className="flex-1 overflow-y-auto">
-        {files.map((file, index) => (
-          <div 
-            key={file.id} 
-            className={`grid grid-cols-12 gap-4 px-6 py-3 items-center border-b border-gray-100 dark:border-slate-700/50 hover:bg-gray-50 dark:hover:bg-slate-700/30 transition-colors ${
-              file.status === FileStatus.ERROR ? 'bg-red-50 dark:bg-red-500/10' : ''
-            } ${file.status === FileStatus.SUCCESS ? 'bg-green-50 dark:bg-green-500/10' : ''}`}
-          >
-            {/* Index */}
-            <div className="col-span-1 text-slate-400 dark:text-slate-500 font-mono text-sm">
-              {(index + 1).toString().padStart(3, '0')}
-            </div>
-
-            {/* Thumbnail */}
-            <div className="col-span-1">
-              <div className="w-10 h-10 rounded overflow-hidden bg-gray-100 dark:bg-slate-900 border border-gray-200 dark:border-slate-700">
-                {file.previewUrl ? (
-                  <img src={file.previewUrl} alt="thumb" className="w-full h-full object-cover" />
-                ) : (
-                  <FileImage className="w-full h-full p-2 text-slate-400 dark:text-slate-600" />
-                )}
-              </div>
-            </div>
-
-            {/* Original Name */}
-            <div className="col-span-4 truncate text-slate-700 dark:text-slate-300 text-sm" title={file.originalName}>
-              {file.originalName}
-              <span className="text-slate-400 dark:text-slate-500 ml-1">{file.extension}</span>
-              <div className="text-[10px] text-slate-500 dark:text-slate-600 mt-0.5">{formatDate(file.lastModified)}</div>
-            </div>
-
-            {/* Arrow / Status Icon */}
-            <div className="col-span-1 flex justify-center text-slate-400 dark:text-slate-500">
-              {file.status === FileStatus.PENDING && <ArrowRight size={16} />}
-              {file.status === FileStatus.SUCCESS && <CheckCircle size={16} className="text-green-500" />}
-              {file.status === FileStatus.ERROR && <AlertCircle size={16} className="text-red-500" />}
-              {file.status === FileStatus.SKIPPED && <CircleDashed size={16} className="text-yellow-500" />}
-            </div>
-
-            {/* New Name */}
-            <div className="col-span-4 truncate text-sm">
-              {file.status === FileStatus.ERROR ? (
-                <span className="text-red-500 dark:text-red-400 italic text-xs">{file.errorMessage}</span>
-              ) : (
-                <span className="text-blue-600 dark:text-blue-400 font-medium">
-                  {file.newName}
-                  <span className="text-blue-400/70 dark:text-blue-600/70">{file.extension}</span>
-                </span>
-              )}
-            </div>
-
-            {/* Size */}
-            <div className="col-span-1 text-right text-slate-400 dark:text-slate-500 text-xs font-mono">
-              {formatBytes(file.size, 0)}
-            </div>
+      {/* Table Body, only the rows in view are rendered */}
+      <div ref={containerRef} onScroll={onScroll} className="flex-1 overflow-y-auto">
+        <div style={{ height: offsets[offsets.length - 1] }}>
+          <div style={{ transform: `translateY(${offsets[start]}px)` }}>
+            {items.slice(start, end).map(item => {
+              if (item.type === 'folder') {
+                return (
+                  <div
+                    key={`folder:${item.path}`}
+                    style={{ height: FOLDER_HEIGHT }}
+                    className="flex items-center gap-2 px-6 bg-gray-50 dark:bg-slate-900/40 border-b border-gray-200 dark:border-slate-700 text-xs text-slate-600 dark:text-slate-300"
+                  >
+                    <Folder size={14} className="text-primary shrink-0" />
+                    <span className="font-mono truncate">{item.path ? `${item.path}/` : t.rootFolder}</span>
+                    <span className="text-slate-400 dark:text-slate-500">{t.folderFileCount.replace('{count}', item.count.toString())}</span>
+                  </div>
+                );
+              }
+
+              const { file, index } = item;
+              return (
+                <div 
+                  key={file.id} 
+                  style={{ height: ROW_HEIGHT }}
+                  draggable={!!onReorder && editing?.id !== file.id}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedId(file.id);
+                  }}
+                  onDragOver={(e) => {
+                    if (!draggedId) return;
+                    e.preventDefault();
+                    setDropTargetId(file.id);
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (draggedId && draggedId !== file.id) onReorder?.(draggedId, file.id);
+                    endDrag();
+                  }}
+                  onDragEnd={endDrag}
+                  className={`group/row grid grid-cols-12 gap-4 px-6 items-center border-b border-gray-100 dark:border-slate-700/50 hover:bg-gray-50 dark:hover:bg-slate-700/30 transition-colors ${
+                    file.status === FileStatus.ERROR ? 'bg-red-50 dark:bg-red-500/10' : ''
+                  } ${file.status === FileStatus.SUCCESS ? 'bg-green-50 dark:bg-green-500/10' : ''} ${
+                    draggedId === file.id ? 'opacity-40' : ''
+                  } ${dropTargetId === file.id && draggedId !== file.id ? 'ring-2 ring-inset ring-primary' : ''} ${onReorder ? 'cursor-grab' : ''}`}
+                >
+                  {/* Index */}
+                  <div className="col-span-1 text-slate-400 dark:text-slate-500 font-mono text-sm flex items-center gap-1" title={onReorder ? t.dragToReorder : undefined}>
+                    {onReorder && <GripVertical size={14} className="shrink-0 opacity-50" />}
+                    {onSelectionChange && (
+                      <input
+                        type="checkbox"
+                        checked={!!selectedIds?.has(file.id)}
+                        onChange={(e) => toggleSelection(file.id, (e.nativeEvent as MouseEvent).shiftKey)}
+                        onClick={(e) => e.stopPropagation()}
+                        className="accent-primary shrink-0"
+                      />
+                    )}
+                    {(index + 1).toString().padStart(3, '0')}
+                  </div>
+
+                  {/* Thumbnail */}
+                  <div className="col-span-1">
+                    <Thumbnail file={file} transform={file.transform} />
+                  </div>
+
+                  {/* Original Name */}
+                  <div className="relative col-span-4 truncate text-slate-700 dark:text-slate-300 text-sm" title={file.path}>
+                    {file.originalName}
+                    <span className="text-slate-400 dark:text-slate-500 ml-1">{file.extension}</span>
+                    {file.metadata?.hasGps && (
+                      <span
+                        className="ml-2 inline-flex items-center gap-0.5 text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded bg-rose-100 text-rose-700 dark:bg-rose-500/10 dark:text-rose-400"
+                        title={t.gpsBadgeHint}
+                      >
+                        <MapPin size={10} /> {t.gpsBadge}
+                      </span>
+                    )}
+                    <div className="text-[10px] text-slate-500 dark:text-slate-600 mt-0.5 truncate">
+                      {file.directory && <span className="font-mono mr-2">{file.directory}/</span>}
+                      {formatDate(file.lastModified)}
+                    </div>
+                    {onTransform && isEditable(file) && (
+                      <div className="absolute right-0 top-1/2 -translate-y-1/2 hidden group-hover/row:flex items-center gap-0.5 rounded-lg bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 shadow-sm p-0.5">
+                        {ROW_TRANSFORMS.map(({ action, icon: Icon }) => (
+                          <button
+                            key={action}
+                            onClick={() => onTransform(file, action)}
+                            title={t[action]}
+                            className="p-1 rounded text-slate-500 hover:text-primary hover:bg-gray-100 dark:hover:bg-slate-700 transition-colors"
+                          >
+                            <Icon size={14} />
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Arrow / Status Icon */}
+                  <div className="col-span-1 flex justify-center text-slate-400 dark:text-slate-500">
+                    {file.status === FileStatus.PENDING && <ArrowRight size={16} />}
+                    {file.status === FileStatus.SUCCESS && <CheckCircle size={16} className="text-green-500" />}
+                    {file.status === FileStatus.ERROR && <AlertCircle size={16} className="text-red-500" />}
+                    {file.status === FileStatus.SKIPPED && <CircleDashed size={16} className="text-yellow-500" />}
+                  </div>
+
+                  {/* New Name */}
+                  <div
+                    className={`col-span-4 truncate text-sm ${onOverride && isEditable(file) && editing?.id !== file.id ? 'cursor-text group/name' : ''}`}
+                    onClick={() => {
+                      if (onOverride && isEditable(file) && editing?.id !== file.id) {
+                        startEdit(file);
+                      }
+                    }}
+                    title={onOverride && isEditable(file) ? t.overrideHint : undefined}
+                  >
+                    {editing?.id === file.id ? (
+                      <div className="flex items-center gap-1">
+                        <input
+                          autoFocus
+                          value={editing.value}
+                          onChange={(e) => setEditing({ id: file.id, value: e.target.value })}
+                          onFocus={(e) => e.target.select()}
+                          onBlur={() => commitEdit(file)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitEdit(file);
+                            if (e.key === 'Escape') cancelEdit();
+                          }}
+                          className="flex-1 min-w-0 bg-white dark:bg-slate-900 border border-primary rounded px-2 py-0.5 text-sm text-slate-900 dark:text-white outline-none"
+                        />
+                        <span className="text-slate-400 text-sm">{file.newExtension}</span>
+                      </div>
+                    ) : file.status === FileStatus.ERROR ? (
+                      <span className="text-red-500 dark:text-red-400 italic text-xs">{file.errorMessage}</span>
+                    ) : file.status === FileStatus.SKIPPED && file.errorMessage ? (
+                      <span className="text-yellow-600 dark:text-yellow-500 italic text-xs">{file.errorMessage}</span>
+                    ) : (
+                      <span className="text-blue-600 dark:text-blue-400 font-medium">
+                        {file.newName}
+                        <span className="text-blue-400/70 dark:text-blue-600/70">{file.newExtension}</span>
+                      </span>
+                    )}
+                    {file.resolution && (
+                      <span
+                        className="ml-2 text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 dark:bg-amber-500/10 dark:text-amber-400"
+                        title={t.conflictPolicyLabel}
+                      >
+                        {t[POLICY_LABELS[file.resolution]]}
+                      </span>
+                    )}
+                    {file.overridden && editing?.id !== file.id && (
+                      <span className="ml-2 inline-flex items-center gap-1 text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded bg-violet-100 text-violet-700 dark:bg-violet-500/10 dark:text-violet-400">
+                        <Pencil size={10} /> {t.overrideBadge}
+                        {onOverride && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onOverride(file, null);
+                            }}
+                            title={t.overrideReset}
+                            className="hover:text-red-500"
+                          >
+                            <X size={10} />
+                          </button>
+                        )}
+                      </span>
+                    )}
+                    {file.transform && editing?.id !== file.id && (
+                      <span
+                        className="ml-2 inline-flex items-center gap-1 text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded bg-sky-100 text-sky-700 dark:bg-sky-500/10 dark:text-sky-400"
+                        title={t.transformBadge}
+                      >
+                        {file.transform.rotate > 0 && <><RotateCw size={10} /> {file.transform.rotate}°</>}
+                        {file.transform.flip && <FlipHorizontal2 size={10} />}
+                        {onTransform && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onTransform(file, 'reset');
+                            }}
+                            title={t.transformReset}
+                            className="hover:text-red-500"
+                          >
+                            <X size={10} />
+                          </button>
+                        )}
+                      </span>
+                    )}
+                  </div>
+
+                  {/* Size */}
+                  <div className="col-span-1 text-right text-slate-400 dark:text-slate-500 text-xs font-mono">
+                    {formatBytes(file.size, 0)}
+                  </div>
+                </div>
+              );
+            })}
           </div>
-        ))}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,123 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { DateFilterField, RenameConfig } from '../types';
+import { FilterSettings } from '../services/FileFilter';
+
+interface FilterControlsProps {
+  settings: FilterSettings;
+  extensions: string[]; // Extensions of the scanned files, lowercase with the dot
+  active: boolean;
+  filteredCount: number;
+  onChange: (changes: Partial<RenameConfig>) => void;
+  onClear: () => void;
+  t: any;
+}
+
+const inputClass = 'w-full bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded px-2 py-1.5 text-xs text-slate-900 dark:text-white focus:ring-1 focus:ring-primary outline-none';
+const labelClass = 'block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1';
+
+/**
+ * Glob, extension, size and date filters of the batch.
+ */
+const FilterControls: React.FC<FilterControlsProps> = ({ settings, extensions, active, filteredCount, onChange, onClear, t }) => {
+  // Globs are edited one per line; blank lines are kept while typing and ignored by the filter
+  const globInput = (field: 'includeGlobs' | 'excludeGlobs', label: string, placeholder: string) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <textarea
+        rows={2}
+        value={settings[field].join('\n')}
+        onChange={(e) => onChange({ [field]: e.target.value.split('\n') })}
+        placeholder={placeholder}
+        className={`${inputClass} font-mono resize-y`}
+      />
+    </div>
+  );
+
+  // Sizes are stored in bytes and edited in KB
+  const sizeInput = (field: 'minSize' | 'maxSize', label: string) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input
+        type="number"
+        min={0}
+        value={settings[field] ? Math.round(settings[field] / 1024) : ''}
+        onChange={(e) => onChange({ [field]: Math.max(0, parseInt(e.target.value) || 0) * 1024 })}
+        placeholder={t.filterNoLimit}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  const toggleExtension = (extension: string) => {
+    const excluded = settings.excludedExtensions;
+    onChange({
+      excludedExtensions: excluded.includes(extension)
+        ? excluded.filter(e => e !== extension)
+        : [...excluded, extension]
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {globInput('includeGlobs', t.filterInclude, '*.jpg\nevents/**')}
+      {globInput('excludeGlobs', t.filterExclude, '*_edit.*')}
+      <p className="text-[10px] text-slate-400 dark:text-slate-500 leading-relaxed">{t.filterGlobHint}</p>
+
+      {extensions.length > 0 && (
+        <div>
+          <label className={labelClass}>{t.filterExtensions}</label>
+          <div className="flex flex-wrap gap-1.5">
+            {extensions.map(extension => {
+              const excluded = settings.excludedExtensions.includes(extension);
+              return (
+                <button
+                  key={extension}
+                  onClick={() => toggleExtension(extension)}
+                  className={`px-2 py-0.5 rounded text-[11px] font-mono uppercase border transition-colors ${excluded
+                    ? 'border-gray-300 dark:border-slate-700 text-slate-400 line-through'
+                    : 'border-primary/40 bg-primary/10 text-primary'
+                    }`}
+                >
+                  {extension.replace('.', '')}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {sizeInput('minSize', t.filterMinSize)}
+        {sizeInput('maxSize', t.filterMaxSize)}
+      </div>
+
+      <div>
+        <label className={labelClass}>{t.filterDateLabel}</label>
+        <select
+          value={settings.dateFilterField}
+          onChange={(e) => onChange({ dateFilterField: e.target.value as DateFilterField })}
+          className={`${inputClass} mb-2`}
+        >
+          <option value="modified">{t.sortModified}</option>
+          <option value="captureDate">{t.sortCaptureDate}</option>
+        </select>
+        <div className="grid grid-cols-2 gap-3">
+          <input type="date" value={settings.dateFrom} max={settings.dateTo || undefined} onChange={(e) => onChange({ dateFrom: e.target.value })} title={t.filterDateFrom} className={inputClass} />
+          <input type="date" value={settings.dateTo} min={settings.dateFrom || undefined} onChange={(e) => onChange({ dateTo: e.target.value })} title={t.filterDateTo} className={inputClass} />
+        </div>
+      </div>
+
+      {active && (
+        <div className="flex items-center justify-between text-[11px]">
+          <span className="text-yellow-600 dark:text-yellow-500">{t.filterSummary.replace('{count}', filteredCount.toString())}</span>
+          <button onClick={onClear} className="flex items-center gap-1 text-slate-500 hover:text-red-500 transition-colors">
+            <X size={12} /> {t.filterClear}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilterControls;
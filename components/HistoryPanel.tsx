@@ -0,0 +1,72 @@
+import React from 'react';
+import { History, Undo2, RotateCcw } from 'lucide-react';
+import { RenameBatch } from '../types';
+import { formatDate } from '../utils/formatters';
+
+interface HistoryPanelProps {
+  batches: RenameBatch[];
+  folderBatchIds: Set<string>; // Batches executed against the folder that is open now
+  disabled: boolean;
+  onRevert: (batch: RenameBatch) => void;
+  t: any;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ batches, folderBatchIds, disabled, onRevert, t }) => {
+  if (batches.length === 0) return null;
+
+  // Most recent batch of the open folder that can still be undone
+  const lastBatch = batches.find(b => !b.revertedAt && folderBatchIds.has(b.id));
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl p-6 shadow-sm dark:shadow-lg border border-gray-200 dark:border-slate-700/50 transition-colors duration-300">
+      <h3 className="text-slate-500 dark:text-slate-400 text-xs font-bold uppercase tracking-wider mb-4 flex items-center gap-2">
+        <History size={14} /> {t.historyTitle}
+      </h3>
+
+      <button
+        onClick={() => lastBatch && onRevert(lastBatch)}
+        disabled={!lastBatch || disabled}
+        className={`w-full mb-4 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors border ${!lastBatch || disabled
+          ? 'border-gray-200 dark:border-slate-700 text-gray-400 dark:text-slate-600 cursor-not-allowed'
+          : 'border-primary/40 text-primary hover:bg-primary/10'
+          }`}
+      >
+        <Undo2 size={14} /> {t.undoLastBatch}
+      </button>
+
+      <ul className="space-y-2 max-h-64 overflow-y-auto">
+        {batches.map(batch => {
+          const sameFolder = folderBatchIds.has(batch.id);
+          return (
+            <li key={batch.id} className="flex items-center justify-between gap-2 text-xs">
+              <div className="min-w-0">
+                <p className="text-slate-700 dark:text-slate-300 truncate" title={batch.rootName}>
+                  {batch.rootName} · {batch.entries.length} {t.files}
+                </p>
+                <p className="text-[10px] text-slate-500">
+                  {formatDate(batch.createdAt)}
+                  {batch.revertedAt && <span className="ml-1 text-yellow-600 dark:text-yellow-500">· {t.revertedLabel}</span>}
+                  {!batch.revertedAt && batch.entries.some(entry => entry.revertedAt) && (
+                    <span className="ml-1 text-yellow-600 dark:text-yellow-500">· {t.partlyRevertedLabel}</span>
+                  )}
+                </p>
+              </div>
+              {!batch.revertedAt && (
+                <button
+                  onClick={() => onRevert(batch)}
+                  disabled={!sameFolder || disabled}
+                  title={sameFolder ? t.revertBatch : t.historyOtherFolder}
+                  className="p-1.5 rounded text-slate-500 hover:text-primary hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-slate-500 transition-colors"
+                >
+                  <RotateCcw size={14} />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,85 @@
+import React, { useRef } from 'react';
+import { FileSpreadsheet, X, AlertCircle } from 'lucide-react';
+import { MappingIssue, NameMapping } from '../types';
+
+interface MappingPanelProps {
+  mapping: NameMapping | null;
+  onImport: (file: File) => void;
+  onClear: () => void;
+  t: any;
+}
+
+// Translation keys of the issue kinds
+const ISSUE_LABELS: Record<MappingIssue['kind'], string> = {
+  invalid: 'mappingInvalid',
+  unmatched: 'mappingUnmatched',
+  ambiguous: 'mappingAmbiguous',
+  duplicate: 'mappingDuplicate',
+  duplicateTarget: 'mappingDuplicateTarget',
+};
+
+const MappingPanel: React.FC<MappingPanelProps> = ({ mapping, onImport, onClear, t }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="mb-5">
+      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{t.mappingLabel}</label>
+
+      {mapping ? (
+        <div className="rounded-lg border border-gray-200 dark:border-slate-700 p-3 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-slate-700 dark:text-slate-300 truncate flex items-center gap-1.5" title={mapping.fileName}>
+              <FileSpreadsheet size={14} className="shrink-0 text-green-600 dark:text-green-400" /> {mapping.fileName}
+            </span>
+            <button
+              onClick={onClear}
+              title={t.mappingClear}
+              className="p-1 rounded text-slate-500 hover:text-red-500 hover:bg-gray-100 dark:hover:bg-slate-800 transition-colors"
+            >
+              <X size={14} />
+            </button>
+          </div>
+          <p className="text-[11px] text-slate-500">
+            {t.mappingSummary
+              .replace('{matched}', mapping.names.size.toString())
+              .replace('{rows}', mapping.rowCount.toString())}
+          </p>
+          {mapping.issues.length > 0 && (
+            <ul className="max-h-32 overflow-y-auto space-y-1">
+              {mapping.issues.map(issue => (
+                <li key={`${issue.row}-${issue.kind}`} className="text-[11px] text-yellow-600 dark:text-yellow-500 flex items-start gap-1">
+                  <AlertCircle size={12} className="mt-0.5 shrink-0" />
+                  <span className="min-w-0 break-words">
+                    {t.mappingRow} {issue.row}: {t[ISSUE_LABELS[issue.kind]]}
+                    {issue.oldName && <span className="font-mono"> ({issue.oldName})</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="w-full py-2 rounded-lg text-xs font-medium flex items-center justify-center gap-2 transition-colors border border-dashed border-gray-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:border-primary hover:text-primary"
+        >
+          <FileSpreadsheet size={14} /> {t.mappingImport}
+        </button>
+      )}
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept="text/csv,.csv"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default MappingPanel;
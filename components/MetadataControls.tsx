@@ -0,0 +1,47 @@
+import React from 'react';
+import { MetadataMode, RenameConfig } from '../types';
+import { MetadataSettings } from '../utils/imageMetadata';
+
+interface MetadataControlsProps {
+  settings: MetadataSettings;
+  onChange: (changes: Partial<RenameConfig>) => void;
+  t: any;
+}
+
+const MODE_LABELS: Record<MetadataMode, string> = {
+  keep: 'metadataKeep',
+  update: 'metadataUpdate',
+  drop: 'metadataDrop',
+};
+
+/**
+ * Keep, update or drop choice for each metadata group of re-encoded files.
+ */
+const MetadataControls: React.FC<MetadataControlsProps> = ({ settings, onChange, t }) => {
+  const modeSelect = (field: keyof MetadataSettings, label: string, modes: MetadataMode[]) => (
+    <div className="flex items-center justify-between gap-3">
+      <label className="text-xs text-slate-600 dark:text-slate-300">{label}</label>
+      <select
+        value={settings[field]}
+        onChange={(e) => onChange({ [field]: e.target.value })}
+        className="w-32 bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded px-2 py-1 text-xs text-slate-900 dark:text-white focus:ring-1 focus:ring-primary outline-none"
+      >
+        {modes.map(mode => (
+          <option key={mode} value={mode}>{t[MODE_LABELS[mode]]}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-xs font-medium text-slate-500 dark:text-slate-400">{t.metadataTitle}</label>
+      {modeSelect('exifMode', t.metadataExif, ['keep', 'update', 'drop'])}
+      {modeSelect('xmpMode', t.metadataXmp, ['keep', 'update', 'drop'])}
+      {modeSelect('iccMode', t.metadataIcc, ['keep', 'drop'])}
+      <p className="text-[10px] text-slate-400 dark:text-slate-500 leading-relaxed">{t.metadataHint}</p>
+    </div>
+  );
+};
+
+export default MetadataControls;
@@ -0,0 +1,67 @@
+import React, { useRef } from 'react';
+import { Save, Trash2, Download, Upload } from 'lucide-react';
+import { Preset } from '../services/PresetStore';
+
+interface PresetPickerProps {
+  presets: Preset[];
+  activeName: string; // '' when the settings don't come from a preset
+  onApply: (preset: Preset) => void;
+  onSave: () => void;
+  onDelete: (name: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  t: any;
+}
+
+const iconButton = 'p-1.5 rounded text-slate-500 hover:text-primary hover:bg-gray-100 dark:hover:bg-slate-800 disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-slate-500 transition-colors';
+
+const PresetPicker: React.FC<PresetPickerProps> = ({ presets, activeName, onApply, onSave, onDelete, onExport, onImport, t }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="mb-5">
+      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{t.presetLabel}</label>
+      <div className="flex items-center gap-1">
+        <select
+          value={activeName}
+          onChange={(e) => {
+            const preset = presets.find(p => p.name === e.target.value);
+            if (preset) onApply(preset);
+          }}
+          className="flex-1 min-w-0 bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded px-2 py-1.5 text-xs text-slate-900 dark:text-white focus:ring-1 focus:ring-primary outline-none"
+        >
+          <option value="">{presets.length > 0 ? t.presetChoose : t.presetNone}</option>
+          {presets.map(preset => (
+            <option key={preset.name} value={preset.name}>{preset.name}</option>
+          ))}
+        </select>
+
+        <button onClick={onSave} title={t.presetSave} className={iconButton}>
+          <Save size={14} />
+        </button>
+        <button onClick={() => onDelete(activeName)} disabled={!activeName} title={t.presetDelete} className={iconButton}>
+          <Trash2 size={14} />
+        </button>
+        <button onClick={onExport} disabled={presets.length === 0} title={t.presetExport} className={iconButton}>
+          <Download size={14} />
+        </button>
+        <button onClick={() => fileInput.current?.click()} title={t.presetImport} className={iconButton}>
+          <Upload size={14} />
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default PresetPicker;
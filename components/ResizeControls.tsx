@@ -0,0 +1,149 @@
+import React from 'react';
+import { CropAnchor, RenameConfig, ResizeMode } from '../types';
+import { CROP_ANCHORS, ResizeSettings } from '../utils/resizeGeometry';
+
+interface ResizeControlsProps {
+  settings: ResizeSettings;
+  onChange: (changes: Partial<RenameConfig>) => void;
+  t: any;
+}
+
+const MODE_LABELS: Record<ResizeMode, string> = {
+  width: 'resizeModeWidth',
+  height: 'resizeModeHeight',
+  longEdge: 'resizeModeLongEdge',
+  fit: 'resizeModeFit',
+  percent: 'resizeModePercent',
+  crop: 'resizeModeCrop',
+};
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, unit, onChange }) => (
+  <div>
+    <div className="flex justify-between items-center mb-2">
+      <label className="text-xs font-medium text-slate-500 dark:text-slate-400">{label}</label>
+      <span className="text-xs font-mono bg-primary/10 text-primary px-2 py-0.5 rounded">{value}{unit}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="w-full h-2 bg-gray-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-primary"
+    />
+    <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+      <span>{min}{unit}</span>
+      <span>{max}{unit}</span>
+    </div>
+  </div>
+);
+
+/**
+ * Mode picker plus the dimension controls of the selected resize mode.
+ */
+const ResizeControls: React.FC<ResizeControlsProps> = ({ settings, onChange, t }) => {
+  const { resizeMode } = settings;
+
+  const widthSlider = (label: string) => (
+    <Slider label={label} value={settings.resizeWidth} min={100} max={4000} step={50} unit="px" onChange={(resizeWidth) => onChange({ resizeWidth })} />
+  );
+  const heightSlider = (
+    <Slider label={t.resizeHeightLabel} value={settings.resizeHeight} min={100} max={4000} step={50} unit="px" onChange={(resizeHeight) => onChange({ resizeHeight })} />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{t.resizeModeLabel}</label>
+        <select
+          value={resizeMode}
+          onChange={(e) => onChange({ resizeMode: e.target.value as ResizeMode })}
+          className="w-full bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded px-2 py-1.5 text-xs text-slate-900 dark:text-white focus:ring-1 focus:ring-primary outline-none"
+        >
+          {(Object.keys(MODE_LABELS) as ResizeMode[]).map(mode => (
+            <option key={mode} value={mode}>{t[MODE_LABELS[mode]]}</option>
+          ))}
+        </select>
+      </div>
+
+      {resizeMode === 'width' && widthSlider(t.resizeSizeLabel)}
+
+      {resizeMode === 'height' && heightSlider}
+
+      {resizeMode === 'longEdge' && (
+        <Slider label={t.resizeLongEdgeLabel} value={settings.resizeLongEdge} min={100} max={4000} step={50} unit="px" onChange={(resizeLongEdge) => onChange({ resizeLongEdge })} />
+      )}
+
+      {resizeMode === 'fit' && (
+        <>
+          {widthSlider(t.resizeSizeLabel)}
+          {heightSlider}
+        </>
+      )}
+
+      {resizeMode === 'percent' && (
+        <Slider label={t.resizePercentLabel} value={settings.resizePercent} min={1} max={100} step={1} unit="%" onChange={(resizePercent) => onChange({ resizePercent })} />
+      )}
+
+      {resizeMode === 'crop' && (
+        <>
+          <div>
+            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{t.cropAspectLabel}</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                value={settings.cropAspectWidth}
+                onChange={(e) => onChange({ cropAspectWidth: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="w-full bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded px-2 py-1.5 text-xs font-mono text-slate-900 dark:text-white focus:ring-1 focus:ring-primary outline-none"
+              />
+              <span className="text-slate-400 text-xs">:</span>
+              <input
+                type="number"
+                min={1}
+                value={settings.cropAspectHeight}
+                onChange={(e) => onChange({ cropAspectHeight: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="w-full bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded px-2 py-1.5 text-xs font-mono text-slate-900 dark:text-white focus:ring-1 focus:ring-primary outline-none"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{t.cropAnchorLabel}</label>
+            <div className="grid grid-cols-3 gap-1 w-20">
+              {CROP_ANCHORS.map((anchor: CropAnchor) => (
+                <button
+                  key={anchor}
+                  type="button"
+                  title={anchor}
+                  onClick={() => onChange({ cropAnchor: anchor })}
+                  className={`h-5 rounded border transition-colors ${settings.cropAnchor === anchor
+                    ? 'bg-primary border-primary'
+                    : 'bg-gray-100 dark:bg-slate-800 border-gray-300 dark:border-slate-600 hover:border-primary'
+                    }`}
+                />
+              ))}
+            </div>
+          </div>
+
+          {widthSlider(t.resizeMaxWidthLabel)}
+        </>
+      )}
+
+      <p className="text-[11px] text-slate-400 dark:text-slate-500">{t.noUpscaleHint}</p>
+    </div>
+  );
+};
+
+export default ResizeControls;
@@ -0,0 +1,180 @@
+import React from 'react';
+import { ChevronUp, ChevronDown, Trash2, AlertCircle } from 'lucide-react';
+import { CaseStyle, RenameRule, RuleMode } from '../types';
+import { CASE_STYLES, RULE_TYPES, createRule } from '../services/RuleEngine';
+
+interface RulesEditorProps {
+  rules: RenameRule[];
+  mode: RuleMode;
+  errors: Map<string, string>; // Rule id -> validation error
+  onChange: (rules: RenameRule[]) => void;
+  onModeChange: (mode: RuleMode) => void;
+  t: any;
+}
+
+// Translation keys of the rule types and case styles
+const RULE_LABELS: Record<RenameRule['type'], string> = {
+  replace: 'ruleReplace',
+  remove: 'ruleRemove',
+  insert: 'ruleInsert',
+  trim: 'ruleTrim',
+  collapseWhitespace: 'ruleCollapseWhitespace',
+  case: 'ruleCase',
+};
+
+const CASE_LABELS: Record<CaseStyle, string> = {
+  upper: 'UPPER',
+  lower: 'lower',
+  title: 'Title',
+  camel: 'camelCase',
+  kebab: 'kebab-case',
+  snake: 'snake_case',
+};
+
+const inputClass = 'w-full min-w-0 bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-900 dark:text-white focus:ring-1 focus:ring-primary outline-none';
+const iconButton = 'p-0.5 rounded text-slate-400 hover:text-primary disabled:opacity-30 disabled:hover:text-slate-400 transition-colors';
+
+const RulesEditor: React.FC<RulesEditorProps> = ({ rules, mode, errors, onChange, onModeChange, t }) => {
+  const update = (id: string, changes: Partial<RenameRule>) =>
+    onChange(rules.map(rule => rule.id === id ? { ...rule, ...changes } as RenameRule : rule));
+
+  const move = (index: number, offset: number) => {
+    const next = [...rules];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const numberInput = (value: number, onValue: (value: number) => void) => (
+    <input
+      type="number"
+      min={0}
+      value={value}
+      onChange={(e) => onValue(Math.max(0, parseInt(e.target.value) || 0))}
+      className={`${inputClass} w-14`}
+    />
+  );
+
+  const fromEndToggle = (rule: RenameRule & { fromEnd: boolean }) => (
+    <label className="flex items-center gap-1 text-[11px] text-slate-500 whitespace-nowrap">
+      <input type="checkbox" checked={rule.fromEnd} onChange={(e) => update(rule.id, { fromEnd: e.target.checked })} className="accent-primary" />
+      {t.ruleFromEnd}
+    </label>
+  );
+
+  const renderFields = (rule: RenameRule) => {
+    switch (rule.type) {
+      case 'replace':
+        return (
+          <>
+            <input value={rule.find} placeholder={t.ruleFind} onChange={(e) => update(rule.id, { find: e.target.value })} className={inputClass} />
+            <input value={rule.replace} placeholder={t.ruleReplaceWith} onChange={(e) => update(rule.id, { replace: e.target.value })} className={inputClass} />
+            <label className="flex items-center gap-1 text-[11px] text-slate-500">
+              <input type="checkbox" checked={rule.ignoreCase} onChange={(e) => update(rule.id, { ignoreCase: e.target.checked })} className="accent-primary" />
+              {t.ruleIgnoreCase}
+            </label>
+          </>
+        );
+      case 'remove':
+        return (
+          <div className="flex items-center gap-2 text-[11px] text-slate-500">
+            {numberInput(rule.count, count => update(rule.id, { count }))}
+            <span>{t.ruleCharsAt}</span>
+            {numberInput(rule.position, position => update(rule.id, { position }))}
+            {fromEndToggle(rule)}
+          </div>
+        );
+      case 'insert':
+        return (
+          <div className="space-y-1.5">
+            <input value={rule.text} placeholder={t.ruleText} onChange={(e) => update(rule.id, { text: e.target.value })} className={inputClass} />
+            <div className="flex items-center gap-2 text-[11px] text-slate-500">
+              <span>{t.ruleAtIndex}</span>
+              {numberInput(rule.index, index => update(rule.id, { index }))}
+              {fromEndToggle(rule)}
+            </div>
+          </div>
+        );
+      case 'case':
+        return (
+          <select
+            value={rule.style}
+            onChange={(e) => update(rule.id, { style: e.target.value as CaseStyle })}
+            className={inputClass}
+          >
+            {CASE_STYLES.map(style => <option key={style} value={style}>{CASE_LABELS[style]}</option>)}
+          </select>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="mb-5">
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-medium text-slate-700 dark:text-slate-300">{t.rulesLabel}</label>
+        {rules.length > 0 && (
+          <select
+            value={mode}
+            onChange={(e) => onModeChange(e.target.value as RuleMode)}
+            className="bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-700 rounded px-1.5 py-0.5 text-[11px] text-slate-900 dark:text-white outline-none"
+          >
+            <option value="before">{t.ruleModeBefore}</option>
+            <option value="instead">{t.ruleModeInstead}</option>
+          </select>
+        )}
+      </div>
+
+      <ul className="space-y-2">
+        {rules.map((rule, index) => {
+          const error = errors.get(rule.id);
+          return (
+            <li
+              key={rule.id}
+              className={`rounded-lg border p-2 space-y-1.5 ${error ? 'border-red-400 dark:border-red-500/70' : 'border-gray-200 dark:border-slate-700'} ${rule.enabled ? '' : 'opacity-50'}`}
+            >
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => update(rule.id, { enabled: e.target.checked })}
+                  title={t.ruleEnabled}
+                  className="accent-primary"
+                />
+                <span className="flex-1 text-xs font-medium text-slate-600 dark:text-slate-300">{t[RULE_LABELS[rule.type]]}</span>
+                <button onClick={() => move(index, -1)} disabled={index === 0} title={t.ruleMoveUp} className={iconButton}>
+                  <ChevronUp size={14} />
+                </button>
+                <button onClick={() => move(index, 1)} disabled={index === rules.length - 1} title={t.ruleMoveDown} className={iconButton}>
+                  <ChevronDown size={14} />
+                </button>
+                <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} title={t.ruleDelete} className={`${iconButton} hover:text-red-500`}>
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              {renderFields(rule)}
+              {error && (
+                <p className="text-[11px] text-red-500 dark:text-red-400 flex items-start gap-1">
+                  <AlertCircle size={12} className="mt-0.5 shrink-0" /> {error}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <select
+        value=""
+        onChange={(e) => {
+          if (e.target.value) onChange([...rules, createRule(e.target.value as RenameRule['type'])]);
+        }}
+        className="mt-2 w-full bg-transparent border border-dashed border-gray-300 dark:border-slate-600 rounded px-2 py-1.5 text-xs text-slate-500 dark:text-slate-400 hover:border-primary outline-none cursor-pointer"
+      >
+        <option value="">{t.ruleAdd}</option>
+        {RULE_TYPES.map(type => <option key={type} value={type}>{t[RULE_LABELS[type]]}</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default RulesEditor;
@@ -6,12 +6,15 @@ import { formatBytes } from '../utils/formatters';
 
 interface StatsPanelProps {
   files: ImageFile[];
+  excludedExtensions?: string[]; // Shown greyed out
+  onToggleExtension?: (extension: string) => void; // Called with the lowercase extension of a clicked slice
   t: any; // Using any for simplicity with the passed translation object, typically would be a defined Interface
 }
 
 const COLORS = ['#3b82f6', '#06b6d4', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981'];
+const EXCLUDED_COLOR = '#94a3b8';
 
-const StatsPanel: React.FC<StatsPanelProps> = ({ files, t }) => {
+const StatsPanel: React.FC<StatsPanelProps> = ({ files, excludedExtensions = [], onToggleExtension, t }) => {
   const data = useMemo(() => {
     const extMap: Record<string, number> = {};
     files.forEach(f => {
@@ -21,10 +24,16 @@ const StatsPanel: React.FC<StatsPanelProps> = ({ files, t }) => {
     
     return Object.keys(extMap).map(key => ({
       name: key,
-      value: extMap[key]
+      value: extMap[key],
+      extension: `.${key.toLowerCase()}`
     })).sort((a, b) => b.value - a.value);
   }, [files]);
 
+  const toggle = (name: string) => {
+    const entry = data.find(d => d.name === name);
+    if (entry && onToggleExtension) onToggleExtension(entry.extension);
+  };
+
   const totalSize = useMemo(() => files.reduce((acc, curr) => acc + curr.size, 0), [files]);
 
   if (files.length === 0) return null;
@@ -56,9 +65,15 @@ const StatsPanel: React.FC<StatsPanelProps> = ({ files, t }) => {
               paddingAngle={5}
               dataKey="value"
               stroke="none"
+              onClick={(entry: { name: string }) => toggle(entry.name)}
+              className={onToggleExtension ? 'cursor-pointer' : ''}
             >
               {data.map((entry, index) => (
-                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                <Cell
+                  key={`cell-${index}`}
+                  fill={excludedExtensions.includes(entry.extension) ? EXCLUDED_COLOR : COLORS[index % COLORS.length]}
+                  fillOpacity={excludedExtensions.includes(entry.extension) ? 0.35 : 1}
+                />
               ))}
             </Pie>
             <Tooltip 
@@ -70,10 +85,19 @@ const StatsPanel: React.FC<StatsPanelProps> = ({ files, t }) => {
               }}
               itemStyle={{ color: '#f8fafc' }}
             />
-            <Legend verticalAlign="bottom" height={36} iconType="circle" />
+            <Legend
+              verticalAlign="bottom"
+              height={36}
+              iconType="circle"
+              onClick={(entry) => toggle(String(entry.value))}
+              wrapperStyle={onToggleExtension ? { cursor: 'pointer' } : undefined}
+            />
           </PieChart>
         </ResponsiveContainer>
       </div>
+      {onToggleExtension && (
+        <p className="mt-2 text-[10px] text-center text-slate-400 dark:text-slate-500">{t.statsToggleHint}</p>
+      )}
     </div>
   );
 };
@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileImage } from 'lucide-react';
+import { ImageFile, ImageTransform } from '../types';
+import { ThumbnailCache } from '../services/ThumbnailCache';
+import { toCssTransform } from '../utils/orientation';
+
+const thumbnailCache = new ThumbnailCache();
+
+interface ThumbnailProps {
+  file: ImageFile;
+  transform?: ImageTransform; // Shown turned the way the file will be written
+  className?: string;
+}
+
+/**
+ * Cached preview of an image, loaded once it scrolls into view.
+ * Its object URL lives exactly as long as the component shows that file.
+ */
+const Thumbnail: React.FC<ThumbnailProps> = ({ file, transform, className = 'w-10 h-10' }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Preview rows are new objects on every config change; only a different file needs a new thumbnail
+  const key = ThumbnailCache.getKey(file);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    thumbnailCache.get(file).then(blob => {
+      if (cancelled || !blob) return;
+      objectUrl = URL.createObjectURL(blob);
+      setUrl(objectUrl);
+    });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [visible, key, file.fileObject]);
+
+  return (
+    <div ref={ref} className={`${className} rounded overflow-hidden bg-gray-100 dark:bg-slate-900 border border-gray-200 dark:border-slate-700`}>
+      {url ? (
+        <img
+          src={url}
+          alt=""
+          draggable={false}
+          decoding="async"
+          className="w-full h-full object-cover transition-transform"
+          style={{ transform: transform && toCssTransform(transform) }}
+        />
+      ) : (
+        <FileImage className="w-full h-full p-2 text-slate-400 dark:text-slate-600" />
+      )}
+    </div>
+  );
+};
+
+export default Thumbnail;
@@ -0,0 +1,171 @@
+import { DuplicateGroup, ImageFile, ImageHashes, JournalEntry } from '../types';
+import { getExistingFile, resolveDirectory, writeFile } from '../utils/fileSystem';
+import { WorkerPool } from './WorkerPool';
+import { ImageResizer } from './ImageResizer';
+
+// Work sent to the hashing worker for one file
+export interface HashTask {
+  file: Blob;
+}
+
+// Folder (inside the picked one) that duplicates are moved to
+export const DUPLICATES_FOLDER = 'duplicates';
+
+// Bit count of every 4-bit value, for Hamming distances between hex hashes
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/**
+ * Number of differing bits between two hex hashes of the same length.
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+};
+
+/**
+ * DuplicateFinder Service
+ * Finds exact copies (SHA-256) and near-duplicates (dHash within a Hamming distance).
+ */
+export class DuplicateFinder {
+  private pool: WorkerPool<HashTask, ImageHashes> | null = null;
+
+  /**
+   * Hashes every file in the worker pool. Files that cannot be read are left out.
+   */
+  public async hashFiles(
+    files: ImageFile[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<Map<string, ImageHashes>> {
+    if (!this.pool) {
+      this.pool = new WorkerPool<HashTask, ImageHashes>(
+        () => new Worker(new URL('../workers/hashWorker.ts', import.meta.url), { type: 'module' }),
+        ImageResizer.getDefaultConcurrency()
+      );
+    }
+
+    const hashes = new Map<string, ImageHashes>();
+    let done = 0;
+
+    await Promise.all(files.map(async file => {
+      try {
+        hashes.set(file.id, await this.pool!.run({ file: file.fileObject }));
+      } catch (error) {
+        console.warn(`Could not hash ${file.path}`, error);
+      }
+      onProgress?.(++done, files.length);
+    }));
+
+    return hashes;
+  }
+
+  /**
+   * Groups files with identical content, or with perceptual hashes at most `threshold` bits apart.
+   * The oldest file of a group (capture date, then modification time) is kept.
+   */
+  public findGroups(files: ImageFile[], hashes: Map<string, ImageHashes>, threshold: number): DuplicateGroup[] {
+    const hashed = files.filter(file => hashes.has(file.id));
+
+    // Union-find over the hashed files
+    const parent = hashed.map((_, index) => index);
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+    const union = (a: number, b: number) => { parent[find(a)] = find(b); };
+
+    const bySha = new Map<string, number>();
+    hashed.forEach((file, index) => {
+      const { sha256 } = hashes.get(file.id)!;
+      const first = bySha.get(sha256);
+      if (first === undefined) {
+        bySha.set(sha256, index);
+      } else {
+        union(index, first);
+      }
+    });
+
+    for (let i = 0; i < hashed.length; i++) {
+      const a = hashes.get(hashed[i].id)!.dHash;
+      if (!a) continue;
+      for (let j = i + 1; j < hashed.length; j++) {
+        const b = hashes.get(hashed[j].id)!.dHash;
+        if (b && find(i) !== find(j) && hammingDistance(a, b) <= threshold) {
+          union(i, j);
+        }
+      }
+    }
+
+    const members = new Map<number, ImageFile[]>();
+    hashed.forEach((file, index) => {
+      const root = find(index);
+      members.set(root, [...(members.get(root) ?? []), file]);
+    });
+
+    const age = (file: ImageFile) => file.metadata?.captureDate ?? file.lastModified;
+    return [...members.values()]
+      .filter(group => group.length > 1)
+      .map(group => {
+        const [keeper, ...duplicates] = [...group].sort((a, b) => age(a) - age(b) || a.path.localeCompare(b.path));
+        const sha = hashes.get(keeper.id)!.sha256;
+        return {
+          id: keeper.id,
+          kind: group.every(file => hashes.get(file.id)!.sha256 === sha) ? 'exact' : 'similar',
+          keeper,
+          duplicates
+        };
+      });
+  }
+
+  /**
+   * Moves files into the duplicates folder of the picked directory.
+   * Names taken there get a numeric suffix. Resolves to the journal entries of the moved files, for undo.
+   */
+  public async moveToFolder(
+    files: ImageFile[],
+    dirHandle: FileSystemDirectoryHandle
+  ): Promise<{ entries: JournalEntry[]; failed: { name: string; reason: string }[] }> {
+    const result = { entries: [] as JournalEntry[], failed: [] as { name: string; reason: string }[] };
+    const target = await resolveDirectory(dirHandle, DUPLICATES_FOLDER, true);
+
+    for (const file of files) {
+      try {
+        if (!file.handle) {
+          throw new Error('Missing file system permissions or handles.');
+        }
+
+        let name = file.originalName + file.extension;
+        for (let n = 1; await getExistingFile(target, name); n++) {
+          name = `${file.originalName}_${n}${file.extension}`;
+        }
+
+        const originalName = file.handle.name;
+        let moved = file.handle;
+        // @ts-ignore - Check for experimental 'move' support (Chrome 111+)
+        if (file.handle.move) {
+          // @ts-ignore
+          await file.handle.move(target, name);
+        } else {
+          moved = await writeFile(target, name, await file.handle.getFile());
+          await (file.parentHandle ?? dirHandle).removeEntry(originalName);
+        }
+
+        const written = await moved.getFile();
+        result.entries.push({
+          originalName,
+          newName: name,
+          directory: file.directory,
+          targetDirectory: DUPLICATES_FOLDER,
+          resized: false,
+          keptOriginal: false,
+          size: written.size,
+          lastModified: written.lastModified
+        });
+      } catch (error) {
+        console.error(`Failed to move ${file.path}`, error);
+        result.failed.push({ name: file.path, reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+}
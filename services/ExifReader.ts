@@ -0,0 +1,295 @@
+/**
+ * ExifReader Service
+ * Minimal JPEG/PNG/WebP/TIFF EXIF parser written against plain byte buffers,
+ * so it has no DOM dependency. Callers read the file header themselves (HEADER_READ_SIZE).
+ */
+
+import { ImageMetadata } from '../types';
+
+// TIFF tags we care about
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_ISO = 0x8827;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+const TAG_FOCAL_LENGTH = 0x920a;
+const TAG_LENS_MODEL = 0xa434;
+
+// Byte size of each TIFF field type, indexed by type id
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// EXIF blocks live at the start of the file, no need to read the whole image
+export const HEADER_READ_SIZE = 256 * 1024;
+
+interface IfdEntry {
+    tag: number;
+    type: number;
+    count: number;
+    valueOffset: number; // Absolute offset of the value inside the view
+}
+
+export class ExifReader {
+
+    /**
+     * Parse a JPEG or TIFF byte buffer.
+     */
+    public parse(buffer: ArrayBuffer): ImageMetadata {
+        const view = new DataView(buffer);
+        if (view.byteLength < 4) return {};
+
+        // JPEG: walk the marker segments looking for APP1 "Exif\0\0"
+        if (view.getUint16(0) === 0xffd8) {
+            const tiffStart = this.findJpegExif(view);
+            return tiffStart === -1 ? {} : this.parseTiff(view, tiffStart);
+        }
+
+        // PNG: the TIFF structure fills an eXIf chunk
+        if (view.getUint32(0) === 0x89504e47) {
+            const tiffStart = this.findPngExif(view);
+            return tiffStart === -1 ? {} : this.parseTiff(view, tiffStart);
+        }
+
+        // WebP: RIFF container with an EXIF chunk
+        if (view.byteLength >= 12 && this.readAscii(view, 0, 4) === 'RIFF' && this.readAscii(view, 8, 4) === 'WEBP') {
+            const tiffStart = this.findWebpExif(view);
+            return tiffStart === -1 ? {} : this.parseTiff(view, tiffStart);
+        }
+
+        // Raw TIFF container
+        const byteOrder = view.getUint16(0);
+        if (byteOrder === 0x4949 || byteOrder === 0x4d4d) {
+            return this.parseTiff(view, 0);
+        }
+
+        return {};
+    }
+
+    /**
+     * Returns the offset of the TIFF header inside the APP1 segment, or -1.
+     */
+    private findJpegExif(view: DataView): number {
+        let offset = 2;
+
+        while (offset + 4 <= view.byteLength) {
+            if (view.getUint8(offset) !== 0xff) return -1;
+
+            const marker = view.getUint8(offset + 1);
+            // Start of scan: compressed data follows, no more metadata
+            if (marker === 0xda || marker === 0xd9) return -1;
+
+            const length = view.getUint16(offset + 2);
+            if (marker === 0xe1 && offset + 10 <= view.byteLength && this.readAscii(view, offset + 4, 4) === 'Exif') {
+                return offset + 10;
+            }
+
+            offset += 2 + length;
+        }
+
+        return -1;
+    }
+
+    /**
+     * Returns the offset of the eXIf chunk data, or -1.
+     */
+    private findPngExif(view: DataView): number {
+        let offset = 8;
+
+        while (offset + 8 <= view.byteLength) {
+            const type = this.readAscii(view, offset + 4, 4);
+            if (type === 'eXIf') return offset + 8;
+            if (type === 'IEND') return -1;
+
+            // Length, type, data and CRC
+            offset += 12 + view.getUint32(offset);
+        }
+
+        return -1;
+    }
+
+    /**
+     * Returns the offset of the TIFF header inside the EXIF chunk, or -1.
+     * Files with the chunk after a large image payload are only found when it is within the view.
+     */
+    private findWebpExif(view: DataView): number {
+        let offset = 12;
+
+        while (offset + 8 <= view.byteLength) {
+            const size = view.getUint32(offset + 4, true);
+            if (this.readAscii(view, offset, 4) === 'EXIF') {
+                // Some writers keep the JPEG "Exif\0\0" prefix
+                return this.readAscii(view, offset + 8, 4) === 'Exif' ? offset + 14 : offset + 8;
+            }
+
+            // Chunks are padded to an even size
+            offset += 8 + size + (size % 2);
+        }
+
+        return -1;
+    }
+
+    private parseTiff(view: DataView, tiffStart: number): ImageMetadata {
+        const metadata: ImageMetadata = {};
+        if (tiffStart + 8 > view.byteLength) return metadata;
+
+        const little = view.getUint16(tiffStart) === 0x4949;
+        if (view.getUint16(tiffStart + 2, little) !== 42) return metadata;
+
+        const ifd0 = this.readIfd(view, tiffStart, tiffStart + view.getUint32(tiffStart + 4, little), little);
+        let dateTime: string | undefined;
+
+        for (const entry of ifd0) {
+            switch (entry.tag) {
+                case TAG_MAKE:
+                    metadata.make = this.readString(view, entry);
+                    break;
+                case TAG_MODEL:
+                    metadata.model = this.readString(view, entry);
+                    break;
+                case TAG_ORIENTATION: {
+                    const orientation = this.readNumber(view, entry, little);
+                    if (orientation >= 1 && orientation <= 8) metadata.orientation = orientation;
+                    break;
+                }
+                case TAG_DATE_TIME:
+                    dateTime = this.readString(view, entry);
+                    break;
+                case TAG_EXIF_IFD: {
+                    const exifIfd = this.readIfd(view, tiffStart, tiffStart + this.readNumber(view, entry, little), little);
+                    this.parseExifIfd(view, exifIfd, little, metadata);
+                    break;
+                }
+                case TAG_GPS_IFD: {
+                    const gpsIfd = this.readIfd(view, tiffStart, tiffStart + this.readNumber(view, entry, little), little);
+                    // Cameras without a fix still write the GPS IFD; only a latitude is a position
+                    if (gpsIfd.some(gpsEntry => gpsEntry.tag === TAG_GPS_LATITUDE)) metadata.hasGps = true;
+                    break;
+                }
+            }
+        }
+
+        // Fall back to the file modification date stored by the camera
+        if (metadata.captureDate === undefined && dateTime) {
+            metadata.captureDate = this.parseDate(dateTime);
+        }
+
+        return metadata;
+    }
+
+    private parseExifIfd(view: DataView, entries: IfdEntry[], little: boolean, metadata: ImageMetadata): void {
+        let digitized: string | undefined;
+
+        for (const entry of entries) {
+            switch (entry.tag) {
+                case TAG_DATE_TIME_ORIGINAL:
+                    metadata.captureDate = this.parseDate(this.readString(view, entry));
+                    break;
+                case TAG_DATE_TIME_DIGITIZED:
+                    digitized = this.readString(view, entry);
+                    break;
+                case TAG_ISO:
+                    metadata.iso = this.readNumber(view, entry, little);
+                    break;
+                case TAG_FOCAL_LENGTH:
+                    metadata.focalLength = this.readNumber(view, entry, little);
+                    break;
+                case TAG_LENS_MODEL:
+                    metadata.lens = this.readString(view, entry);
+                    break;
+            }
+        }
+
+        if (metadata.captureDate === undefined && digitized) {
+            metadata.captureDate = this.parseDate(digitized);
+        }
+    }
+
+    private readIfd(view: DataView, tiffStart: number, offset: number, little: boolean): IfdEntry[] {
+        if (offset + 2 > view.byteLength) return [];
+
+        const entries: IfdEntry[] = [];
+        const count = view.getUint16(offset, little);
+
+        for (let i = 0; i < count; i++) {
+            const entryOffset = offset + 2 + i * 12;
+            if (entryOffset + 12 > view.byteLength) break;
+
+            const type = view.getUint16(entryOffset + 2, little);
+            const valueCount = view.getUint32(entryOffset + 4, little);
+            const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+
+            // Values up to 4 bytes are stored inline, bigger ones behind an offset
+            const valueOffset = size <= 4
+                ? entryOffset + 8
+                : tiffStart + view.getUint32(entryOffset + 8, little);
+
+            if (valueOffset + size > view.byteLength) continue;
+
+            entries.push({
+                tag: view.getUint16(entryOffset, little),
+                type,
+                count: valueCount,
+                valueOffset
+            });
+        }
+
+        return entries;
+    }
+
+    private readString(view: DataView, entry: IfdEntry): string {
+        return this.readAscii(view, entry.valueOffset, entry.count).replace(/\0+$/, '').trim();
+    }
+
+    private readNumber(view: DataView, entry: IfdEntry, little: boolean): number {
+        switch (entry.type) {
+            case 1:
+            case 7:
+                return view.getUint8(entry.valueOffset);
+            case 3:
+                return view.getUint16(entry.valueOffset, little);
+            case 4:
+                return view.getUint32(entry.valueOffset, little);
+            case 9:
+                return view.getInt32(entry.valueOffset, little);
+            case 5:
+            case 10: {
+                const read = entry.type === 5
+                    ? (o: number) => view.getUint32(o, little)
+                    : (o: number) => view.getInt32(o, little);
+                const denominator = read(entry.valueOffset + 4);
+                return denominator === 0 ? 0 : read(entry.valueOffset) / denominator;
+            }
+            default:
+                return 0;
+        }
+    }
+
+    private readAscii(view: DataView, offset: number, length: number): string {
+        let result = '';
+        const end = Math.min(offset + length, view.byteLength);
+        for (let i = offset; i < end; i++) {
+            result += String.fromCharCode(view.getUint8(i));
+        }
+        return result;
+    }
+
+    /**
+     * EXIF dates are "YYYY:MM:DD HH:MM:SS" in camera local time, without a zone.
+     * They are stored as a UTC timestamp of that wall-clock time, so reading
+     * them back with the UTC getters gives the exact values from the camera.
+     */
+    private parseDate(value: string): number | undefined {
+        const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value);
+        if (!match) return undefined;
+
+        const [, year, month, day, hour, minute, second] = match.map(Number);
+        // Cameras without a clock write "0000:00:00 00:00:00"
+        if (year === 0 || month === 0) return undefined;
+
+        return Date.UTC(year, month - 1, day, hour, minute, second);
+    }
+}
@@ -0,0 +1,111 @@
+import { ImageFile, RenameConfig } from '../types';
+import { globToRegExp } from '../utils/glob';
+import { formatBytes } from '../utils/formatters';
+
+/**
+ * FileFilter Service
+ * Decides which scanned files take part in the batch, from the glob, extension, size and date filters.
+ */
+
+export type FilterSettings = Pick<RenameConfig,
+  'includeGlobs' | 'excludeGlobs' | 'excludedExtensions' | 'minSize' | 'maxSize' | 'dateFilterField' | 'dateFrom' | 'dateTo'>;
+
+interface CompiledGlob {
+  pattern: string;
+  regex: RegExp;
+}
+
+const compile = (patterns: string[]): CompiledGlob[] =>
+  patterns
+    .map(pattern => pattern.trim())
+    .filter(pattern => pattern !== '')
+    .map(pattern => ({ pattern, regex: globToRegExp(pattern) }));
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Capture dates are camera wall-clock times stored as UTC, modified dates are real instants shown in local time
+const toDay = (timestamp: number, utc: boolean): string => {
+  const date = new Date(timestamp);
+  return utc
+    ? `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+    : `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export class FileFilter {
+
+  /**
+   * Whether any filter is set.
+   */
+  public isActive(settings: FilterSettings): boolean {
+    // Only looks for a non-empty pattern, compiling them is left to apply
+    const hasGlob = (patterns: string[]) => patterns.some(pattern => pattern.trim() !== '');
+    return hasGlob(settings.includeGlobs)
+      || hasGlob(settings.excludeGlobs)
+      || settings.excludedExtensions.length > 0
+      || settings.minSize > 0
+      || settings.maxSize > 0
+      || settings.dateFrom !== ''
+      || settings.dateTo !== '';
+  }
+
+  /**
+   * Files left out of the batch, by id, with the reason shown on their row.
+   */
+  public apply(files: ImageFile[], settings: FilterSettings): Map<string, string> {
+    const excluded = new Map<string, string>();
+    const include = compile(settings.includeGlobs);
+    const exclude = compile(settings.excludeGlobs);
+    const extensions = new Set(settings.excludedExtensions);
+
+    for (const file of files) {
+      const reason = this.getReason(file, settings, include, exclude, extensions);
+      if (reason) excluded.set(file.id, `Filtered: ${reason}`);
+    }
+
+    return excluded;
+  }
+
+  private getReason(
+    file: ImageFile,
+    settings: FilterSettings,
+    include: CompiledGlob[],
+    exclude: CompiledGlob[],
+    extensions: Set<string>
+  ): string | null {
+    if (extensions.has(file.extension)) {
+      return `${file.extension} files are excluded`;
+    }
+
+    if (include.length > 0 && !include.some(glob => glob.regex.test(file.path))) {
+      return 'matches no include pattern';
+    }
+
+    const excludedBy = exclude.find(glob => glob.regex.test(file.path));
+    if (excludedBy) {
+      return `matches "${excludedBy.pattern}"`;
+    }
+
+    if (settings.minSize > 0 && file.size < settings.minSize) {
+      return `smaller than ${formatBytes(settings.minSize)}`;
+    }
+    if (settings.maxSize > 0 && file.size > settings.maxSize) {
+      return `larger than ${formatBytes(settings.maxSize)}`;
+    }
+
+    if (settings.dateFrom || settings.dateTo) {
+      const captured = settings.dateFilterField === 'captureDate' ? file.metadata?.captureDate : undefined;
+      const day = captured !== undefined ? toDay(captured, true) : toDay(file.lastModified, false);
+      const label = settings.dateFilterField === 'captureDate' ? 'taken' : 'modified';
+
+      // ISO days compare correctly as strings
+      if (settings.dateFrom && day < settings.dateFrom) {
+        return `${label} before ${settings.dateFrom}`;
+      }
+      if (settings.dateTo && day > settings.dateTo) {
+        return `${label} after ${settings.dateTo}`;
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,234 @@
+import { resolveDirectory, writeFile } from '../utils/fileSystem';
+
+/**
+ * Storage behind a batch: the folder picked in the browser, or a folder on disk for the CLI.
+ * Paths are relative to the root and use '/' on every platform ('' is the root itself).
+ */
+
+export interface AdapterEntry {
+  name: string;
+  kind: 'file' | 'directory';
+}
+
+export interface AdapterFile {
+  file: File; // Content is read lazily, slices only read their range
+  handle?: FileSystemFileHandle; // Only from the browser adapter, the web app renames through handles
+  parentHandle?: FileSystemDirectoryHandle;
+}
+
+export interface FileSystemAdapter {
+  readonly rootName: string;
+  list(directory: string): AsyncIterable<AdapterEntry>;
+  open(path: string): Promise<AdapterFile>;
+  /**
+   * Renames a file inside its folder, or moves it into targetDirectory (created when missing).
+   * Fails when the target exists, unless overwrite is set or the target is the same file
+   * (a case-only rename on a case-insensitive file system).
+   */
+  move(directory: string, from: string, to: string, overwrite?: boolean, targetDirectory?: string): Promise<void>;
+  /**
+   * Writes a file, replacing the one at that path and creating the folders it goes into.
+   */
+  write(path: string, content: Blob): Promise<void>;
+  /**
+   * Deletes a file.
+   */
+  remove(path: string): Promise<void>;
+  /**
+   * Removes a folder if it is empty. Resolves to whether it was removed.
+   */
+  removeEmptyDirectory(path: string): Promise<boolean>;
+}
+
+export const joinPath = (directory: string, name: string): string => directory ? `${directory}/${name}` : name;
+
+const splitPath = (path: string): [string, string] => {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? ['', path] : [path.substring(0, slash), path.substring(slash + 1)];
+};
+
+/**
+ * Removes the given folders, then their parents, for as long as they are empty.
+ * The root and hidden folders (such as the backup folder) are kept.
+ * Resolves to the removed folders.
+ */
+export const removeEmptyDirectories = async (adapter: FileSystemAdapter, directories: Iterable<string>): Promise<string[]> => {
+  const candidates = new Set<string>();
+  for (const directory of directories) {
+    for (let path = directory; path; path = splitPath(path)[0]) {
+      candidates.add(path);
+    }
+  }
+
+  // Deepest first, so a parent is only tried once its subfolders are gone
+  const ordered = [...candidates]
+    .filter(path => !path.split('/').some(name => name.startsWith('.')))
+    .sort((a, b) => b.split('/').length - a.split('/').length);
+
+  const removed: string[] = [];
+  for (const path of ordered) {
+    if (await adapter.removeEmptyDirectory(path)) removed.push(path);
+  }
+  return removed;
+};
+
+/**
+ * Adapter over a folder picked with the File System Access API.
+ */
+export class DirectoryHandleAdapter implements FileSystemAdapter {
+  // Handles met while listing, so opening a listed file needs no lookup
+  private directories = new Map<string, FileSystemDirectoryHandle>();
+  private files = new Map<string, FileSystemFileHandle>();
+
+  constructor(private root: FileSystemDirectoryHandle) {
+    this.directories.set('', root);
+  }
+
+  public get rootName(): string {
+    return this.root.name;
+  }
+
+  public async *list(directory: string): AsyncIterable<AdapterEntry> {
+    const dirHandle = await this.getDirectory(directory);
+
+    // @ts-ignore - TypeScript might not fully know the async iterator depending on lib version
+    for await (const entry of dirHandle.values()) {
+      const path = joinPath(directory, entry.name);
+      if (entry.kind === 'directory') {
+        this.directories.set(path, entry as FileSystemDirectoryHandle);
+      } else {
+        this.files.set(path, entry as FileSystemFileHandle);
+      }
+      yield { name: entry.name, kind: entry.kind };
+    }
+  }
+
+  public async open(path: string): Promise<AdapterFile> {
+    const [directory, name] = splitPath(path);
+    const parentHandle = await this.getDirectory(directory);
+    const handle = this.files.get(path) ?? await parentHandle.getFileHandle(name);
+    return { file: await handle.getFile(), handle, parentHandle };
+  }
+
+  public async move(directory: string, from: string, to: string, overwrite = false, targetDirectory?: string): Promise<void> {
+    const dirHandle = await this.getDirectory(directory);
+    const handle = await dirHandle.getFileHandle(from);
+    const sameFolder = targetDirectory === undefined;
+    const targetHandle = sameFolder ? dirHandle : await this.getDirectory(targetDirectory, true);
+
+    if (!overwrite && (!sameFolder || from.toLowerCase() !== to.toLowerCase())) {
+      const existing = await targetHandle.getFileHandle(to).catch(() => null);
+      if (existing) throw new Error(`"${to}" already exists`);
+    }
+
+    let moved = handle;
+    // @ts-ignore - Check for experimental 'move' support (Chrome 111+)
+    if (handle.move) {
+      // @ts-ignore
+      await (sameFolder ? handle.move(to) : handle.move(targetHandle, to));
+    } else {
+      // Fallback: Copy and Delete
+      moved = await writeFile(targetHandle, to, await handle.getFile());
+      if (!sameFolder || from !== to) await dirHandle.removeEntry(from);
+    }
+    this.files.delete(joinPath(directory, from));
+    this.files.set(joinPath(targetDirectory ?? directory, to), moved);
+  }
+
+  public async write(path: string, content: Blob): Promise<void> {
+    const [directory, name] = splitPath(path);
+    this.files.set(path, await writeFile(await this.getDirectory(directory, true), name, content));
+  }
+
+  public async remove(path: string): Promise<void> {
+    const [directory, name] = splitPath(path);
+    await (await this.getDirectory(directory)).removeEntry(name);
+    this.files.delete(path);
+  }
+
+  public async removeEmptyDirectory(path: string): Promise<boolean> {
+    const [directory, name] = splitPath(path);
+    try {
+      // Without the recursive option, only an empty folder can be removed
+      await (await this.getDirectory(directory)).removeEntry(name);
+    } catch (error: any) {
+      if (error.name === 'InvalidModificationError' || error.name === 'NotFoundError') return false;
+      throw error;
+    }
+    this.directories.delete(path);
+    return true;
+  }
+
+  private async getDirectory(directory: string, create: boolean = false): Promise<FileSystemDirectoryHandle> {
+    let handle = this.directories.get(directory);
+    if (!handle) {
+      handle = await resolveDirectory(this.root, directory, create);
+      this.directories.set(directory, handle);
+    }
+    return handle;
+  }
+}
+
+const READ_ONLY = 'Uploaded files are read-only, the results are downloaded as a ZIP archive';
+
+export interface UploadedFile {
+  path: string; // Relative to the uploaded folder
+  file: File;
+}
+
+/**
+ * Adapter over files uploaded through a folder input or dropped on the page, for browsers
+ * without the File System Access API. The files are read-only copies; results are downloaded.
+ */
+export class UploadedFilesAdapter implements FileSystemAdapter {
+  private entries = new Map<string, AdapterEntry[]>();
+  private files = new Map<string, File>();
+
+  constructor(public readonly rootName: string, uploaded: UploadedFile[]) {
+    this.entries.set('', []);
+    for (const { path, file } of uploaded) {
+      if (this.files.has(path)) continue;
+      this.files.set(path, file);
+
+      // Register the file and every folder on its path with their parent
+      let [directory, name] = splitPath(path);
+      let kind: AdapterEntry['kind'] = 'file';
+      for (; ;) {
+        const siblings = this.entries.get(directory);
+        if (siblings) {
+          siblings.push({ name, kind });
+          break;
+        }
+        this.entries.set(directory, [{ name, kind }]);
+        kind = 'directory';
+        [directory, name] = splitPath(directory);
+      }
+    }
+  }
+
+  public async *list(directory: string): AsyncIterable<AdapterEntry> {
+    yield* this.entries.get(directory) ?? [];
+  }
+
+  public async open(path: string): Promise<AdapterFile> {
+    const file = this.files.get(path);
+    if (!file) throw new Error(`"${path}" was not uploaded`);
+    return { file };
+  }
+
+  public async move(): Promise<void> {
+    throw new Error(READ_ONLY);
+  }
+
+  public async write(): Promise<void> {
+    throw new Error(READ_ONLY);
+  }
+
+  public async remove(): Promise<void> {
+    throw new Error(READ_ONLY);
+  }
+
+  public async removeEmptyDirectory(): Promise<boolean> {
+    throw new Error(READ_ONLY);
+  }
+}
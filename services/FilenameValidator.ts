@@ -0,0 +1,185 @@
+import { TargetPlatform } from '../types';
+
+/**
+ * FilenameValidator Service
+ * Checks generated names against the rules of the platform the files are meant for,
+ * and optionally rewrites them into names that are valid there.
+ */
+
+export interface FilenameIssue {
+  code: 'EMPTY' | 'ILLEGAL_CHARACTER' | 'RESERVED_NAME' | 'TRAILING_CHARACTER' | 'TOO_LONG';
+  message: string;
+}
+
+interface PlatformRules {
+  label: string;
+  illegal: RegExp; // Characters that can't appear in a name
+  reservedNames: boolean; // Windows device names (CON, PRN, COM1…)
+  noTrailingDotOrSpace: boolean;
+  maxLength: number;
+  lengthUnit: 'utf16' | 'bytes';
+  caseSensitive: boolean; // Whether "a.jpg" and "A.jpg" can sit side by side
+}
+
+// Control characters are invalid (or unusable) on every platform
+const CONTROL_CHARACTERS = '\\u0000-\\u001f\\u007f';
+
+const WINDOWS_ILLEGAL = new RegExp(`[<>:"/\\\\|?*${CONTROL_CHARACTERS}]`, 'g');
+
+export const PLATFORM_RULES: Record<TargetPlatform, PlatformRules> = {
+  windows: {
+    label: 'Windows',
+    illegal: WINDOWS_ILLEGAL,
+    reservedNames: true,
+    noTrailingDotOrSpace: true,
+    maxLength: 255,
+    lengthUnit: 'utf16',
+    caseSensitive: false,
+  },
+  macos: {
+    label: 'macOS',
+    illegal: new RegExp(`[/:${CONTROL_CHARACTERS}]`, 'g'),
+    reservedNames: false,
+    noTrailingDotOrSpace: false,
+    maxLength: 255,
+    lengthUnit: 'bytes',
+    caseSensitive: false,
+  },
+  linux: {
+    label: 'Linux',
+    illegal: new RegExp(`[/${CONTROL_CHARACTERS}]`, 'g'),
+    reservedNames: false,
+    noTrailingDotOrSpace: false,
+    maxLength: 255,
+    lengthUnit: 'bytes',
+    caseSensitive: true,
+  },
+  // Valid everywhere: NAS shares and synced folders end up on all of the above
+  portable: {
+    label: 'all platforms',
+    illegal: WINDOWS_ILLEGAL,
+    reservedNames: true,
+    noTrailingDotOrSpace: true,
+    maxLength: 255,
+    lengthUnit: 'bytes',
+    caseSensitive: false,
+  },
+};
+
+const RESERVED_NAME = /^(con|prn|aux|nul|com[0-9¹²³]|lpt[0-9¹²³])$/i;
+
+// Letters that Unicode decomposition doesn't reduce to ASCII
+const LATIN_MAP: Record<string, string> = {
+  'ß': 'ss', 'æ': 'ae', 'Æ': 'AE', 'ø': 'o', 'Ø': 'O', 'œ': 'oe', 'Œ': 'OE', 'ł': 'l', 'Ł': 'L',
+  'đ': 'd', 'Đ': 'D', 'ð': 'd', 'Ð': 'D', 'þ': 'th', 'Þ': 'Th', 'ı': 'i', 'ħ': 'h', 'Ħ': 'H',
+  '–': '-', '—': '-', '‘': "'", '’': "'", '“': '', '”': '', '«': '', '»': '', '…': '...',
+};
+
+const CYRILLIC_MAP: Record<string, string> = {
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'yo', 'ж': 'zh', 'з': 'z', 'и': 'i',
+  'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r', 'с': 's', 'т': 't',
+  'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y',
+  'ь': '', 'э': 'e', 'ю': 'yu', 'я': 'ya', 'є': 'ye', 'і': 'i', 'ї': 'yi', 'ґ': 'g',
+};
+
+const GREEK_MAP: Record<string, string> = {
+  'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th', 'ι': 'i', 'κ': 'k',
+  'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p', 'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't',
+  'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps', 'ω': 'o',
+};
+
+/**
+ * Converts a name to ASCII: accents are dropped, ligatures expanded, Cyrillic and Greek
+ * romanized. Characters of other scripts have no mapping and are replaced with '_'.
+ */
+export const transliterate = (name: string): string => {
+  const mapped = Array.from(name.normalize('NFC'), char => {
+    if (LATIN_MAP[char] !== undefined) return LATIN_MAP[char];
+
+    const lower = char.toLowerCase();
+    const script = CYRILLIC_MAP[lower] ?? GREEK_MAP[lower.normalize('NFD').replace(/\p{M}/gu, '')];
+    if (script !== undefined) {
+      // Keep the capital of the first letter: Жук -> Zhuk
+      return char !== lower && script ? script.charAt(0).toUpperCase() + script.slice(1) : script;
+    }
+    return char;
+  }).join('');
+
+  return mapped
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^\x20-\x7e]/g, '_');
+};
+
+const byteLength = (value: string): number => new TextEncoder().encode(value).length;
+
+export class FilenameValidator {
+
+  /**
+   * Problems of a full file name (with extension) on the target platform.
+   */
+  public validate(fileName: string, platform: TargetPlatform): FilenameIssue[] {
+    const rules = PLATFORM_RULES[platform];
+    const issues: FilenameIssue[] = [];
+
+    if (fileName.trim() === '' || fileName === '.' || fileName === '..') {
+      return [{ code: 'EMPTY', message: 'The name is empty' }];
+    }
+
+    const illegal = [...new Set(fileName.match(rules.illegal) ?? [])];
+    if (illegal.length > 0) {
+      const shown = illegal.map(char => char < ' ' ? `\\x${char.charCodeAt(0).toString(16).padStart(2, '0')}` : char).join(' ');
+      issues.push({ code: 'ILLEGAL_CHARACTER', message: `Characters not allowed on ${rules.label}: ${shown}` });
+    }
+
+    // Device names are reserved with any extension (CON.jpg)
+    const stem = fileName.split('.')[0].trimEnd();
+    if (rules.reservedNames && RESERVED_NAME.test(stem)) {
+      issues.push({ code: 'RESERVED_NAME', message: `"${stem}" is a reserved name on Windows` });
+    }
+
+    if (rules.noTrailingDotOrSpace && /[. ]$/.test(fileName)) {
+      issues.push({ code: 'TRAILING_CHARACTER', message: 'Names ending with a dot or space are not allowed on Windows' });
+    }
+
+    const length = this.measure(fileName, platform);
+    if (length > rules.maxLength) {
+      const unit = rules.lengthUnit === 'bytes' ? 'bytes' : 'characters';
+      issues.push({ code: 'TOO_LONG', message: `The name is ${length} ${unit} long, the limit is ${rules.maxLength}` });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Rewrites a name (without extension) so that, with the extension, it is valid on the platform.
+   * @param ascii - Also transliterate to plain ASCII
+   */
+  public sanitize(name: string, extension: string, platform: TargetPlatform, ascii: boolean): string {
+    const rules = PLATFORM_RULES[platform];
+    let result = ascii ? transliterate(name) : name.normalize('NFC');
+
+    result = result.replace(rules.illegal, '_');
+
+    // Truncate by characters (not bytes) so no multi-byte character is cut in half
+    const chars = Array.from(result);
+    while (chars.length > 1 && this.measure(chars.join('') + extension, platform) > rules.maxLength) {
+      chars.pop();
+    }
+    result = chars.join('');
+
+    if (rules.noTrailingDotOrSpace && extension === '') {
+      result = result.replace(/[. ]+$/, '');
+    }
+    const [stem, ...rest] = result.split('.');
+    if (rules.reservedNames && RESERVED_NAME.test(stem.trimEnd())) {
+      result = [`${stem}_`, ...rest].join('.');
+    }
+
+    return result.trim() === '' ? '_' : result;
+  }
+
+  private measure(value: string, platform: TargetPlatform): number {
+    return PLATFORM_RULES[platform].lengthUnit === 'bytes' ? byteLength(value) : value.length;
+  }
+}
@@ -1,159 +1,543 @@
-import { ImageFile, ProcessedFile, RenameConfig, FileStatus } from '../types';
-import { ImageResizer } from './ImageResizer';
+import { ImageFile, ProcessedFile, RenameConfig, FileStatus, JournalEntry, PreviewContext, DirectoryListing, ListingEntry } from '../types';
+import { ImageEncoder, ImageResizer, ImageTaskResult } from './ImageResizer';
+import { FileSystemAdapter, joinPath } from './FileSystemAdapter';
+import { PatternEngine, ParsedPattern } from './PatternEngine';
+import { RuleEngine } from './RuleEngine';
+import { FilenameValidator, PLATFORM_RULES } from './FilenameValidator';
+import { getPathKey } from './RenamePlanner';
+import { FORMAT_MIME_TYPES, getFormatFromExtension, getOutputExtension, getOutputFormat } from '../utils/imageFormats';
+import { getResizeSettings } from '../utils/resizeGeometry';
 
 export class ImageRenamer {
+  private patternEngine = new PatternEngine();
+  private ruleEngine = new RuleEngine();
+  private validator = new FilenameValidator();
+
+  /**
+   * @param encoder - Runs resizing, conversion and privacy mode; the worker pool by default
+   */
+  constructor(private encoder: ImageEncoder = new ImageResizer()) { }
 
   /**
    * Generates a preview of the renaming operation based on the current config.
    */
-  public generatePreview(files: ImageFile[], config: RenameConfig): ProcessedFile[] {
+  public generatePreview(files: ImageFile[], config: RenameConfig, context: PreviewContext = {}): ProcessedFile[] {
     const result: ProcessedFile[] = [];
     let counter = config.startNumber;
 
-    // To detect duplicates in the *target* list
-    const usedNames = new Set<string>();
+    // Parse once for the whole batch; an invalid pattern or rule fails every row
+    const parsed = this.patternEngine.parse(config.pattern);
+    const ruleErrors = [...this.ruleEngine.validateAll(config.rules).values()];
+    let batchError: string | null = null;
+    if (!context.mapping) {
+      if (ruleErrors.length > 0) {
+        batchError = `Invalid rule: ${ruleErrors[0]}`;
+      } else if (parsed.errors.length > 0 && config.ruleMode === 'before') {
+        batchError = `Invalid pattern: ${parsed.errors[0].message}`;
+      }
+    }
+    if (batchError) {
+      return files.map(file => ({
+        ...file,
+        newName: file.originalName,
+        newExtension: file.extension,
+        status: FileStatus.ERROR,
+        errorMessage: batchError
+      }));
+    }
+
+    // Per-folder sequences, used when numberingScope is 'folder'
+    const folderCounters = new Map<string, number>();
 
     for (const file of files) {
-      const newName = this.applyPattern(file, config, counter);
-      const fullNewName = `${newName}${file.extension}`;
-
-      let status = FileStatus.PENDING;
-      let errorMessage = undefined;
-
-      // Simple conflict detection logic
-      if (usedNames.has(fullNewName.toLowerCase())) {
-        if (!config.overwrite) {
-          // Auto-resolve conflict if not overwrite
-          status = FileStatus.ERROR;
-          errorMessage = "Conflict: Filename already exists in destination";
+      // Excluded rows stay as they are and take no number
+      const excludedReason = context.excluded?.get(file.id);
+      if (excludedReason) {
+        result.push(this.skippedRow(file, excludedReason));
+        continue;
+      }
+
+      // Names typed in by hand win over the mapping and the pattern
+      const override = context.overrides?.get(file.path);
+      const transform = context.transforms?.get(file.path);
+      const newExtension = getOutputExtension(file.extension, config, !!transform);
+
+      // Imported names replace the pattern
+      if (context.mapping && override === undefined) {
+        const mappedName = context.mapping.names.get(file.id);
+        if (mappedName === undefined) {
+          result.push(this.skippedRow(file, `Not listed in ${context.mapping.fileName}`));
+        } else {
+          result.push({
+            ...file,
+            newName: mappedName,
+            newExtension,
+            status: FileStatus.PENDING,
+            transform
+          });
         }
+        continue;
       }
 
-      usedNames.add(fullNewName.toLowerCase());
+      let index = counter;
+      if (config.numberingScope === 'folder') {
+        index = folderCounters.get(file.directory) ?? config.startNumber;
+        folderCounters.set(file.directory, index + 1);
+      }
+
+      // An overridden row still takes its number, so editing it doesn't shift the others
+      const newName = override ?? this.applyPattern(file, config, index, parsed);
 
       result.push({
         ...file,
         newName: newName,
-        status: status,
-        errorMessage
+        newExtension,
+        status: FileStatus.PENDING,
+        overridden: override !== undefined,
+        transform
       });
 
       counter++;
     }
 
-    return result;
+    // Rows outside the selection stay in place, which the conflict checks must know
+    const selected = context.deselected
+      ? result.map(row => context.deselected!.has(row.id) && row.status === FileStatus.PENDING ? this.skippedRow(row, 'Not selected') : row)
+      : result;
+
+    return this.resolveConflicts(this.checkNames(selected, config), config, context.listing ?? {});
   }
 
   /**
-   * Parses the pattern string and replaces tokens.
+   * Moves the folders of a name ("2024/05/img") into targetDirectory, then flags names and folders
+   * that are invalid on the target platform, or rewrites them when autoSanitize is on.
+   * Folders in a name start from the picked folder, whichever folder the file was found in.
    */
-  private applyPattern(file: ImageFile, config: RenameConfig, index: number): string {
-    let name = config.pattern;
+  private checkNames(files: ProcessedFile[], config: RenameConfig): ProcessedFile[] {
+    return files.map(file => {
+      if (file.status !== FileStatus.PENDING) return file;
 
-    // Replace {name} - Original Name
-    name = name.replace(/{name}/g, file.originalName);
+      const slash = file.newName.lastIndexOf('/');
+      let checked: ProcessedFile = { ...file, newName: file.newName.substring(slash + 1) };
+      let folders = slash >= 0 ? file.newName.substring(0, slash).split('/').filter(Boolean) : null;
+      if (config.autoSanitize) {
+        // What follows the name in the written file (e.g. "_resized.jpg") counts towards the length
+        const tail = this.getTargetFileName({ newName: '', newExtension: file.newExtension }, config);
+        const newName = this.validator.sanitize(checked.newName, tail, config.targetPlatform, config.transliterate);
+        checked = { ...checked, newName };
+        folders = folders?.map(folder => this.validator.sanitize(folder, '', config.targetPlatform, config.transliterate)) ?? null;
+      }
 
-    // Replace {date} - YYYY-MM-DD
-    const dateStr = new Date(file.lastModified).toISOString().split('T')[0];
-    name = name.replace(/{date}/g, dateStr);
+      if (folders) {
+        const targetDirectory = folders.join('/');
+        checked.targetDirectory = targetDirectory !== file.directory ? targetDirectory : undefined;
 
-    // Replace {num} or {num:ddd}
-    name = name.replace(/{num(?::(\d+))?}/g, (match, paddingStr) => {
-      let numStr = index.toString();
-      if (paddingStr) {
-        const padLen = paddingStr.length;
-        numStr = numStr.padStart(padLen, '0');
+        const folderIssues = folders.flatMap(folder => this.validator.validate(folder, config.targetPlatform));
+        if (folderIssues.length > 0) {
+          return {
+            ...checked,
+            status: FileStatus.ERROR,
+            errorMessage: `Invalid folder name: ${[...new Set(folderIssues.map(issue => issue.message))].join('; ')}`
+          };
+        }
       }
-      return numStr;
+
+      const issues = this.validator.validate(this.getTargetFileName(checked, config), config.targetPlatform);
+      if (issues.length === 0) return checked;
+
+      return {
+        ...checked,
+        status: FileStatus.ERROR,
+        errorMessage: `Invalid name: ${issues.map(issue => issue.message).join('; ')}`
+      };
     });
+  }
+
+  /**
+   * A row that stays as it is, with the reason shown in the list.
+   */
+  private skippedRow(file: ImageFile, reason: string): ProcessedFile {
+    return {
+      ...file,
+      newName: file.originalName,
+      newExtension: file.extension,
+      status: FileStatus.SKIPPED,
+      errorMessage: reason
+    };
+  }
+
+  /**
+   * Applies the conflict policy to targets that are already taken, either by another
+   * file of the batch or by a file on disk that stays where it is.
+   * A name on disk is only free if the batch file holding it moves away, and the policy
+   * may keep such a file in place, so resolution repeats until that set stops changing.
+   */
+  private resolveConflicts(files: ProcessedFile[], config: RenameConfig, listing: DirectoryListing): ProcessedFile[] {
+    const disk = new Map<string, ListingEntry>();
+    for (const [directory, entries] of Object.entries(listing)) {
+      entries.forEach(entry => disk.set(this.getConflictKey(config, directory, entry.name), entry));
+    }
+
+    let freed = this.getFreedKeys(files, config);
+    let resolved = files;
+
+    for (let round = 0; round <= files.length; round++) {
+      resolved = this.applyConflictPolicy(files, config, disk, freed);
+
+      const next = this.getFreedKeys(resolved, config);
+      if (next.size === freed.size && [...next].every(key => freed.has(key))) break;
+      freed = next;
+    }
+
+    return resolved;
+  }
+
+  private applyConflictPolicy(
+    files: ProcessedFile[],
+    config: RenameConfig,
+    disk: Map<string, ListingEntry>,
+    freed: Set<string>
+  ): ProcessedFile[] {
+    const result = files.map(file => ({ ...file }));
+    const policy = config.conflictPolicy;
+
+    // Target key -> batch file currently holding that name
+    const assigned = new Map<string, ProcessedFile>();
+    const onDisk = (key: string) => freed.has(key) ? undefined : disk.get(key);
+
+    const skip = (file: ProcessedFile, errorMessage: string) => {
+      file.status = FileStatus.SKIPPED;
+      file.resolution = policy;
+      file.errorMessage = errorMessage;
+      file.allowOverwrite = false;
+    };
+
+    for (const file of result) {
+      if (file.status !== FileStatus.PENDING) continue;
+
+      const sourceKey = this.getConflictKey(config, file.directory, this.getSourceFileName(file));
+      const targetName = this.getTargetFileName(file, config);
+      const targetDirectory = this.getTargetDirectory(file);
+      const targetKey = this.getConflictKey(config, targetDirectory, targetName);
+
+      // Renaming onto itself (or a case-only change) is never a conflict
+      if (targetKey === sourceKey) continue;
+
+      // A file where one of the target folders has to be created
+      if (file.targetDirectory) {
+        const folders = file.targetDirectory.split('/');
+        const blocker = folders.find((folder, i) => disk.get(this.getConflictKey(config, folders.slice(0, i).join('/'), folder))?.kind === 'file');
+        if (blocker) {
+          file.status = FileStatus.ERROR;
+          file.errorMessage = `A file named "${blocker}" is in the way of the folder "${file.targetDirectory}"`;
+          continue;
+        }
+      }
+
+      const diskEntry = onDisk(targetKey);
+      const holder = assigned.get(targetKey);
+      if (!diskEntry && !holder) {
+        assigned.set(targetKey, file);
+        continue;
+      }
+
+      if (diskEntry?.kind === 'directory' && policy !== 'suffix') {
+        skip(file, `Skipped: a folder named "${targetName}" exists`);
+        continue;
+      }
+
+      switch (policy) {
+        case 'skip': {
+          // Names that only differ in case collide on Windows and macOS
+          const other = holder ? this.getTargetFileName(holder, config) : diskEntry!.name;
+          skip(file, other === targetName
+            ? `Skipped: "${targetName}" is already taken`
+            : `Skipped: "${targetName}" only differs in case from "${other}"`);
+          break;
+        }
+
+        case 'suffix': {
+          const baseName = file.newName;
+          let n = config.conflictSuffixStart;
+          let key = targetKey;
+          while (onDisk(key) || assigned.has(key)) {
+            const suffix = config.conflictSuffixFormat.includes('{n}')
+              ? config.conflictSuffixFormat.replace('{n}', n.toString())
+              : `${config.conflictSuffixFormat}${n}`;
+            file.newName = `${baseName}${suffix}`;
+            key = this.getConflictKey(config, targetDirectory, this.getTargetFileName(file, config));
+            n++;
+          }
+          file.resolution = policy;
+          assigned.set(key, file);
+          break;
+        }
+
+        case 'overwrite':
+          // Later files of the batch replace earlier ones, like copying them in order
+          file.resolution = policy;
+          file.allowOverwrite = true;
+          assigned.set(targetKey, file);
+          break;
+
+        case 'newer':
+        case 'larger': {
+          const rank = (entry: { size: number; lastModified: number }) =>
+            policy === 'newer' ? entry.lastModified : entry.size;
+          const rival = holder ?? diskEntry!;
+
+          // Ties keep what is already there
+          if (rank(file) > rank(rival)) {
+            if (holder) {
+              skip(holder, `Skipped: a ${policy} file takes "${targetName}"`);
+            }
+            file.resolution = policy;
+            file.allowOverwrite = !!diskEntry;
+            assigned.set(targetKey, file);
+          } else {
+            skip(file, `Skipped: a ${policy} file already uses "${targetName}"`);
+          }
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Key comparing names the way the target platform does, so "a.jpg" and "A.jpg" only
+   * collide where the file system ignores case.
+   */
+  private getConflictKey(config: RenameConfig, directory: string, name: string): string {
+    return getPathKey(directory, name, PLATFORM_RULES[config.targetPlatform].caseSensitive);
+  }
+
+  /**
+   * Source names that the batch leaves free once executed.
+   */
+  private getFreedKeys(files: ProcessedFile[], config: RenameConfig): Set<string> {
+    return new Set(
+      files
+        .filter(f => f.status === FileStatus.PENDING && this.movesAway(f, config))
+        .map(f => this.getConflictKey(config, f.directory, this.getSourceFileName(f)))
+    );
+  }
+
+  /**
+   * Whether executing the file leaves its original name free.
+   */
+  private movesAway(file: ProcessedFile, config: RenameConfig): boolean {
+    return !config.keepOriginals
+      && (file.targetDirectory !== undefined || this.getTargetFileName(file, config) !== this.getSourceFileName(file));
+  }
+
+  /**
+   * Relative folder that executeRename writes the file into.
+   */
+  public getTargetDirectory(file: Pick<ProcessedFile, 'directory' | 'targetDirectory'>): string {
+    return file.targetDirectory ?? file.directory;
+  }
+
+  /**
+   * Path of the written file relative to the picked folder.
+   */
+  public getTargetPath(file: Pick<ProcessedFile, 'directory' | 'targetDirectory' | 'newName' | 'newExtension'>, config: RenameConfig): string {
+    const directory = this.getTargetDirectory(file);
+    const name = this.getTargetFileName(file, config);
+    return directory ? `${directory}/${name}` : name;
+  }
+
+  /**
+   * Current file name on disk. The scanner lowercases `extension`, so originalName + extension
+   * is not the real name of "IMG_0001.JPG" on case-sensitive file systems.
+   */
+  public getSourceFileName(file: Pick<ImageFile, 'path'>): string {
+    return file.path.substring(file.path.lastIndexOf('/') + 1);
+  }
+
+  /**
+   * File name (with extension) that executeRename writes for this file.
+   */
+  public getTargetFileName(file: Pick<ProcessedFile, 'newName' | 'newExtension'>, config: RenameConfig): string {
+    // If keeping originals and resize is enabled, append suffix
+    if (config.keepOriginals && config.enableResize) {
+      return `${file.newName}_resized${file.newExtension}`;
+    }
+    return file.newName + file.newExtension;
+  }
+
+  /**
+   * Renders the parsed pattern (or the rule chain) for one file and applies prefix and suffix.
+   */
+  private applyPattern(file: ImageFile, config: RenameConfig, index: number, parsed: ParsedPattern): string {
+    // The rule chain transforms the original name, which {name} then uses, or replaces the template
+    const ruledName = this.ruleEngine.apply(file.originalName, config.rules);
+    const name = config.ruleMode === 'instead'
+      ? ruledName
+      : this.patternEngine.render(parsed, { file: { ...file, originalName: ruledName }, index });
+
+    // Apply Prefix and Suffix to the file name, not to the folders in front of it
+    const slash = name.lastIndexOf('/');
+    return `${name.substring(0, slash + 1)}${config.prefix}${name.substring(slash + 1)}${config.suffix}`;
+  }
+
+  /**
+   * Whether the written format differs from the original one.
+   */
+  private isConverted(file: ProcessedFile, config: RenameConfig): boolean {
+    const outputFormat = getOutputFormat(file.extension, config, !!file.transform);
+    return outputFormat !== null && outputFormat !== getFormatFromExtension(file.extension);
+  }
+
+  /**
+   * Whether the encoder can resize and convert images, not only rewrite their metadata.
+   */
+  public canDecode(): boolean {
+    return this.encoder.decodes;
+  }
+
+  /**
+   * Number of images the worker pool decodes at the same time; idle workers above it stop.
+   */
+  public setConcurrency(concurrency: number): void {
+    this.encoder.setConcurrency(concurrency);
+  }
+
+  /**
+   * Stops the workers of the pool, rejecting the work that did not finish.
+   */
+  public terminateWorkers(): void {
+    this.encoder.terminate();
+  }
 
-    // Apply Prefix and Suffix
-    name = `${config.prefix}${name}${config.suffix}`;
+  /**
+   * Rotates, resizes and/or converts the file in the worker pool, and removes private metadata
+   * in privacy mode. Can run ahead of executeRename,
+   * so decoding overlaps with the (sequential) file system operations of the batch.
+   * Resolves to null when the original content is written unchanged.
+   * @param source - Current content of the file; uploaded files are never moved, their File is it
+   */
+  public async prepareContent(file: ProcessedFile, config: RenameConfig, source: Blob = file.fileObject): Promise<ImageTaskResult | null> {
+    const outputFormat = getOutputFormat(file.extension, config, !!file.transform);
+    const convert = this.isConverted(file, config);
+    if (!outputFormat || (!config.enableResize && !convert && !file.transform && !config.privacyMode)) {
+      return null;
+    }
 
-    return name;
+    this.setConcurrency(config.concurrency);
+    const result = await this.encoder.process(source, {
+      resize: config.enableResize ? getResizeSettings(config) : null,
+      convert,
+      mimeType: FORMAT_MIME_TYPES[outputFormat],
+      quality: config.resizeQuality,
+      metadata: { exifMode: config.exifMode, xmpMode: config.xmpMode, iccMode: config.iccMode },
+      privacy: config.privacyMode,
+      transform: file.transform ?? null,
+      orientation: file.metadata?.orientation,
+      width: file.width,
+      height: file.height
+    });
+    return result.blob ? result : null;
   }
 
   /**
    * Executes the REAL rename operation on the file system.
+   * Returns the journal entry describing what was written, or null when nothing changed.
+   * Content that the operation destroys is copied into the backup folder first.
+   * @param sourceName - Current name of the file, a temporary one while it is parked
+   * @param backupFolder - Folder of the batch's backups, none are written without it
+   * @param prepared - Result of prepareContent when it was started ahead of time
    */
   public async executeRename(
     file: ProcessedFile,
-    dirHandle: FileSystemDirectoryHandle,
-    config: RenameConfig
-  ): Promise<void> {
-    if (!file.handle || !dirHandle) {
-      throw new Error("Missing file system permissions or handles.");
-    }
+    adapter: FileSystemAdapter,
+    config: RenameConfig,
+    sourceName: string = this.getSourceFileName(file),
+    backupFolder?: string,
+    prepared?: Promise<ImageTaskResult | null>
+  ): Promise<JournalEntry | null> {
+    const fullNewName = file.newName + file.newExtension;
+    // Name on disk, so undo and backups keep the original case of the extension
+    const fullOldName = this.getSourceFileName(file);
+    const sourcePath = joinPath(file.directory, sourceName);
+    const moved = file.targetDirectory !== undefined;
 
-    const fullNewName = file.newName + file.extension;
-    const fullOldName = file.originalName + file.extension;
-
-    // Skip if name hasn't changed and no resize is needed
-    if (fullNewName === fullOldName && !config.enableResize) {
-      return;
+    // Skip if name and folder haven't changed and no resize, rotation or conversion is needed
+    const unchanged = !moved && fullNewName === fullOldName && !config.enableResize && !file.transform && !this.isConverted(file, config);
+    if (unchanged && !config.privacyMode) {
+      return null;
     }
 
     try {
-      let fileContent: File | Blob;
-
-      // Handle resizing if enabled
-      if (config.enableResize) {
-        const resizer = new ImageResizer();
-        const originalFile = await file.handle.getFile();
-
-        // Only resize if image is larger than target
-        const shouldResize = await resizer.shouldResize(originalFile, config.resizeWidth);
-
-        if (shouldResize) {
-          fileContent = await resizer.resizeImage(
-            originalFile,
-            config.resizeWidth,
-            config.resizeQuality
-          );
-        } else {
-          fileContent = originalFile;
-        }
-      } else {
-        fileContent = await file.handle.getFile();
+      const { file: originalFile } = await adapter.open(sourcePath);
+
+      // Resize and/or convert, unless the caller already started it
+      const processed = await (prepared ?? this.prepareContent(file, config, originalFile));
+      // Privacy mode found nothing to remove
+      if (unchanged && !processed) {
+        return null;
       }
+      const fileContent: Blob = processed?.blob ?? originalFile;
+      const resized = processed?.resized ?? false;
+      const reencoded = !!processed?.blob;
 
-      // Determine target filename
-      let targetFileName = fullNewName;
+      const targetFileName = this.getTargetFileName(file, config);
+      const targetPath = this.getTargetPath(file, config);
 
-      // If keeping originals and resize is enabled, append suffix
-      if (config.keepOriginals && config.enableResize) {
-        const namePart = file.newName;
-        const ext = file.extension;
-        targetFileName = `${namePart}_resized${ext}`;
+      // Last line of defence: never clobber a file unless the conflict policy chose to.
+      // A case-only rename finds the file itself on case-insensitive file systems.
+      const sameName = !moved && targetFileName.toLowerCase() === sourceName.toLowerCase();
+      const existingTarget = sameName ? null : await adapter.open(targetPath).then(({ file: existing }) => existing, () => null);
+      if (existingTarget && !file.allowOverwrite) {
+        throw new Error(`"${targetFileName}" already exists`);
       }
 
-      // Strategy: Since "rename" isn't a simple command in all implementations yet,
-      // and .move() is experimental, the robust web way is:
-      // 1. Create new file handle
-      // 2. Copy content
-      // 3. Delete old file (if not keeping originals)
+      const keptOriginal = config.keepOriginals && (moved || targetFileName !== fullOldName);
+      const entry: JournalEntry = {
+        originalName: fullOldName,
+        newName: targetFileName,
+        directory: file.directory,
+        targetDirectory: file.targetDirectory,
+        resized,
+        keptOriginal,
+        size: 0,
+        lastModified: 0
+      };
 
-      // @ts-ignore - Check for experimental 'move' support (Chrome 111+)
-      if (file.handle.move && !config.enableResize && !config.keepOriginals) {
-        // @ts-ignore
-        await file.handle.move(fullNewName);
-      } else {
-        // Fallback: Copy and Delete
+      // Back up what this operation destroys: the original content once it is
+      // re-encoded in place of the original, and any file already sitting on the target name
+      if (backupFolder !== undefined) {
+        const backupPrefix = (directory: string) => directory ? `${directory.replace(/\//g, '__')}__` : '';
 
-        // 1. Get/Create new file
-        const newFileHandle = await dirHandle.getFileHandle(targetFileName, { create: true });
+        if (reencoded && !keptOriginal) {
+          entry.backupPath = `${backupPrefix(file.directory)}${fullOldName}`;
+          await adapter.write(`${backupFolder}/${entry.backupPath}`, originalFile);
+        }
 
-        // 2. Write data
-        const writable = await newFileHandle.createWritable();
-        await writable.write(fileContent);
-        await writable.close();
+        if (existingTarget) {
+          entry.replacedBackupPath = `replaced__${backupPrefix(this.getTargetDirectory(file))}${targetFileName}`;
+          await adapter.write(`${backupFolder}/${entry.replacedBackupPath}`, existingTarget);
+        }
+      }
 
-        // 3. Remove old file only if NOT keeping originals
-        if (!config.keepOriginals && targetFileName !== fullOldName) {
-          await dirHandle.removeEntry(fullOldName);
+      if (!reencoded && !config.keepOriginals) {
+        await adapter.move(file.directory, sourceName, targetFileName, file.allowOverwrite, file.targetDirectory);
+      } else {
+        // Write the new file, then remove the old one only if NOT keeping originals
+        await adapter.write(targetPath, fileContent);
+        if (!config.keepOriginals && (moved || targetFileName !== sourceName)) {
+          await adapter.remove(sourcePath);
         }
       }
 
+      // Remember the written state so a later revert can tell if the file was edited since
+      const { file: written } = await adapter.open(targetPath);
+      entry.size = written.size;
+      entry.lastModified = written.lastModified;
+
+      return entry;
+
     } catch (err) {
       console.error(`Failed to rename ${file.originalName}`, err);
       throw err;
@@ -1,129 +1,107 @@
+import { ResizeSettings } from '../utils/resizeGeometry';
+import { MetadataSettings } from '../utils/imageMetadata';
+import { ImageTransform } from '../types';
+import { WorkerPool } from './WorkerPool';
+
+// Work sent to the image worker for one file
+export interface ImageTask {
+    file: Blob;
+    resize: ResizeSettings | null; // null when resizing is disabled
+    convert: boolean; // Re-encode even if the size doesn't change
+    mimeType: string; // Output type
+    quality: number; // Quality for lossy formats (0-100)
+    metadata: MetadataSettings; // What is copied from the source into JPEG and PNG output
+    privacy: boolean; // Remove location, serial numbers, owner names and thumbnails, re-encoded or not
+    transform: ImageTransform | null; // Rotation/flip on top of the EXIF orientation
+    orientation?: number; // EXIF orientation of the source
+    width?: number; // Upright size read from the header, tells whether the decoder applied the orientation
+    height?: number;
+}
+
+export interface ImageTaskResult {
+    blob: Blob | null; // null when the file can be written unchanged
+    resized: boolean;
+    width: number; // Dimensions of the written image
+    height: number;
+}
+
+/**
+ * Runs image tasks for ImageRenamer: the worker pool in the browser, or a Node encoder in the CLI.
+ */
+export interface ImageEncoder {
+    readonly decodes: boolean; // false when the encoder can only rewrite metadata, without resizing or converting
+    process(file: Blob, task: Omit<ImageTask, 'file'>): Promise<ImageTaskResult>;
+    setConcurrency(concurrency: number): void;
+    terminate(): void;
+}
+
 /**
  * ImageResizer Service
- * Handles image resizing using Canvas API
+ * Handles image resizing and format conversion in a pool of Web Workers
  */
+export class ImageResizer implements ImageEncoder {
+    public readonly decodes = true;
 
-export class ImageResizer {
+    // Results of the encoder probes, per MIME type
+    private static supportCache = new Map<string, Promise<boolean>>();
+
+    private pool: WorkerPool<ImageTask, ImageTaskResult> | null = null;
+    private concurrency = ImageResizer.getDefaultConcurrency();
 
     /**
-     * Resize an image file to the specified width while maintaining aspect ratio
-     * @param file - Original image file
-     * @param targetWidth - Target width in pixels
-     * @param quality - JPEG quality (0-100)
-     * @returns Resized image as Blob
+     * Suggested number of parallel workers for this machine
      */
-    public async resizeImage(
-        file: File,
-        targetWidth: number,
-        quality: number = 90
-    ): Promise<Blob> {
-        return new Promise((resolve, reject) => {
-            const img = new Image();
-            const reader = new FileReader();
-
-            reader.onload = (e) => {
-                img.onload = () => {
-                    try {
-                        // Calculate proportional height
-                        const aspectRatio = img.height / img.width;
-                        const targetHeight = Math.round(targetWidth * aspectRatio);
-
-                        // Create canvas
-                        const canvas = document.createElement('canvas');
-                        canvas.width = targetWidth;
-                        canvas.height = targetHeight;
-
-                        // Draw resized image
-                        const ctx = canvas.getContext('2d');
-                        if (!ctx) {
-                            reject(new Error('Could not get canvas context'));
-                            return;
-                        }
-
-                        // Use high quality image smoothing
-                        ctx.imageSmoothingEnabled = true;
-                        ctx.imageSmoothingQuality = 'high';
-                        ctx.drawImage(img, 0, 0, targetWidth, targetHeight);
-
-                        // Convert to blob
-                        const mimeType = this.getMimeType(file.type);
-                        const qualityValue = quality / 100;
-
-                        canvas.toBlob(
-                            (blob) => {
-                                if (blob) {
-                                    resolve(blob);
-                                } else {
-                                    reject(new Error('Failed to create blob from canvas'));
-                                }
-                            },
-                            mimeType,
-                            qualityValue
-                        );
-                    } catch (error) {
-                        reject(error);
-                    }
-                };
-
-                img.onerror = () => {
-                    reject(new Error('Failed to load image'));
-                };
-
-                if (e.target?.result) {
-                    img.src = e.target.result as string;
-                }
-            };
-
-            reader.onerror = () => {
-                reject(new Error('Failed to read file'));
-            };
+    public static getDefaultConcurrency(): number {
+        return Math.max(1, Math.min(4, ((typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 2) - 1));
+    }
 
-            reader.readAsDataURL(file);
-        });
+    /**
+     * Number of files decoded and encoded at the same time
+     */
+    public setConcurrency(concurrency: number): void {
+        this.concurrency = concurrency;
+        this.pool?.setSize(concurrency);
     }
 
     /**
-     * Get appropriate MIME type for output
+     * Rotate, resize and/or convert one image. The file is decoded once, off the main thread.
+     * @param file - Original image file
+     * @param task - What to do with it
+     * @returns The encoded image, with a null blob when it needs no change
      */
-    private getMimeType(originalType: string): string {
-        // Support common image formats
-        if (originalType === 'image/png') {
-            return 'image/png';
-        } else if (originalType === 'image/webp') {
-            return 'image/webp';
-        } else {
-            // Default to JPEG for all other formats (including jpg, jpeg, etc.)
-            return 'image/jpeg';
+    public process(file: Blob, task: Omit<ImageTask, 'file'>): Promise<ImageTaskResult> {
+        if (!this.pool) {
+            this.pool = new WorkerPool<ImageTask, ImageTaskResult>(
+                () => new Worker(new URL('../workers/imageWorker.ts', import.meta.url), { type: 'module' }),
+                this.concurrency
+            );
         }
+        return this.pool.run({ ...task, file });
     }
 
     /**
-     * Check if image needs resizing
+     * Stops the workers; the next call to process starts new ones.
      */
-    public async shouldResize(file: File, targetWidth: number): Promise<boolean> {
-        return new Promise((resolve, reject) => {
-            const img = new Image();
-            const reader = new FileReader();
-
-            reader.onload = (e) => {
-                img.onload = () => {
-                    resolve(img.width > targetWidth);
-                };
-
-                img.onerror = () => {
-                    reject(new Error('Failed to load image'));
-                };
-
-                if (e.target?.result) {
-                    img.src = e.target.result as string;
-                }
-            };
-
-            reader.onerror = () => {
-                reject(new Error('Failed to read file'));
-            };
+    public terminate(): void {
+        this.pool?.terminate();
+        this.pool = null;
+    }
 
-            reader.readAsDataURL(file);
-        });
+    /**
+     * Check if the browser can encode the given type with canvas.toBlob.
+     * Browsers silently fall back to PNG for unknown types, so the result type is compared.
+     */
+    public isFormatSupported(mimeType: string): Promise<boolean> {
+        let probe = ImageResizer.supportCache.get(mimeType);
+        if (!probe) {
+            probe = new Promise<boolean>((resolve) => {
+                const canvas = document.createElement('canvas');
+                canvas.width = 1;
+                canvas.height = 1;
+                canvas.toBlob((blob) => resolve(blob?.type === mimeType), mimeType);
+            });
+            ImageResizer.supportCache.set(mimeType, probe);
+        }
+        return probe;
     }
 }
@@ -1,69 +1,176 @@
-import { ImageFile } from '../types';
+import { DirectoryListing, ImageFile, ImageMetadata, ListingEntry, ScanResult } from '../types';
+import { ExifReader, HEADER_READ_SIZE as EXIF_HEADER_SIZE } from './ExifReader';
+import { DIMENSIONS_HEADER_SIZE, ImageDimensions, readDimensions } from '../utils/imageDimensions';
+import { fromExifOrientation, swapsAxes } from '../utils/orientation';
+import { sortFiles } from '../utils/sortFiles';
+import { FileSystemAdapter } from './FileSystemAdapter';
+import { DUPLICATES_FOLDER } from './DuplicateFinder';
+
+// Images reported per progress callback; the scan yields to the UI between chunks
+const CHUNK_SIZE = 250;
+
+export interface ScanOptions {
+  signal?: AbortSignal; // Aborting rejects the scan with an AbortError
+  onProgress?: (chunk: ImageFile[], entriesRead: number) => void; // Images found since the last call
+}
+
+interface ScanState {
+  files: ImageFile[];
+  listing: DirectoryListing;
+  pending: ImageFile[];
+  entriesRead: number;
+  options: ScanOptions;
+}
 
 export class ImageScanner {
   private allowedExtensions = ['.jpg', '.jpeg', '.png', '.webp', '.gif', '.svg', '.tiff', '.bmp'];
+  private exifExtensions = ['.jpg', '.jpeg', '.png', '.webp', '.tiff'];
+  private exifReader = new ExifReader();
+
+  /**
+   * Whether the browser can open a folder in place (Chromium); others upload a copy instead.
+   */
+  public canPickDirectory(): boolean {
+    return 'showDirectoryPicker' in window;
+  }
 
   /**
-   * Scans a directory using the File System Access API.
-   * This requests real read access to the user's folder.
+   * Asks the user for a folder using the File System Access API.
+   * This requests real read access to the user's folder. Returns null when the user cancels.
    */
-  public async scanDirectory(): Promise<{ files: ImageFile[], dirHandle: FileSystemDirectoryHandle }> {
-    if (!('showDirectoryPicker' in window)) {
+  public async pickDirectory(): Promise<FileSystemDirectoryHandle | null> {
+    if (!this.canPickDirectory()) {
       throw new Error("Your browser does not support the File System Access API. Please use Chrome, Edge, or Opera.");
     }
 
     try {
-      // Prompt user to select a directory
-      const dirHandle = await window.showDirectoryPicker({
+      return await window.showDirectoryPicker({
         id: 'photon-rename-picker',
         mode: 'readwrite' // Request write access upfront for renaming later
       });
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        // User cancelled
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the images of any storage, reporting them in chunks as they are found.
+   * The web app scans the picked or uploaded folder through this, the CLI folders on disk.
+   */
+  public async scan(adapter: FileSystemAdapter, recursive: boolean, options: ScanOptions = {}): Promise<ScanResult> {
+    const state: ScanState = { files: [], listing: {}, pending: [], entriesRead: 0, options };
+
+    await this.walk(adapter, '', recursive, state);
+    this.flush(state);
+    const { files, listing } = state;
+
+    // Natural order by folder, then by name; the batch order is chosen later with sortFiles
+    const sorted = sortFiles(files, 'name', 'asc');
+
+    const totalSize = files.reduce((acc, curr) => acc + curr.size, 0);
+
+    return { files: sorted, totalSize, listing };
+  }
 
-      const files: ImageFile[] = [];
-
-      // Iterate through the directory handle
-      // @ts-ignore - TypeScript might not fully know the async iterator depending on lib version
-      for await (const entry of dirHandle.values()) {
-        if (entry.kind === 'file') {
-          const fileHandle = entry as FileSystemFileHandle;
-          const fileName = fileHandle.name;
-          const lastDotIndex = fileName.lastIndexOf('.');
-
-          if (lastDotIndex === -1) continue;
-
-          const extension = fileName.substring(lastDotIndex).toLowerCase();
-          const nameWithoutExt = fileName.substring(0, lastDotIndex);
-
-          if (this.allowedExtensions.includes(extension)) {
-            // Get the actual File object to read metadata/preview
-            const fileData = await fileHandle.getFile();
-
-            files.push({
-              id: Math.random().toString(36).substr(2, 9),
-              originalName: nameWithoutExt,
-              extension: extension,
-              path: fileName, // Relative path inside the handle
-              size: fileData.size,
-              lastModified: fileData.lastModified,
-              fileObject: fileData,
-              previewUrl: URL.createObjectURL(fileData),
-              handle: fileHandle // Store the handle for renaming later
-            });
-          }
+  /**
+   * Collects the images of one folder and descends into subfolders when recursive.
+   * Every entry is also recorded in the listing, for conflict checks.
+   */
+  private async walk(
+    adapter: FileSystemAdapter,
+    directory: string,
+    recursive: boolean,
+    state: ScanState
+  ): Promise<void> {
+    const entries: ListingEntry[] = [];
+    state.listing[directory] = entries;
+
+    for await (const entry of adapter.list(directory)) {
+      state.options.signal?.throwIfAborted();
+      state.entriesRead++;
+
+      if (entry.kind === 'directory') {
+        entries.push({ name: entry.name, kind: 'directory', size: 0, lastModified: 0 });
+
+        // Hidden folders (including the undo backups) and moved-away duplicates are never part of a batch
+        const duplicates = directory === '' && entry.name === DUPLICATES_FOLDER;
+        if (recursive && !entry.name.startsWith('.') && !duplicates) {
+          const subPath = directory ? `${directory}/${entry.name}` : entry.name;
+          await this.walk(adapter, subPath, recursive, state);
         }
+        continue;
       }
 
-      // Sort by name by default
-      files.sort((a, b) => a.originalName.localeCompare(b.originalName));
+      const fileName = entry.name;
+      const lastDotIndex = fileName.lastIndexOf('.');
+      const path = directory ? `${directory}/${fileName}` : fileName; // Relative path inside the picked folder
 
-      return { files, dirHandle };
+      // Size and date of every file are needed to resolve conflicts (keep newer/larger)
+      const { file: fileData, handle, parentHandle } = await adapter.open(path);
+      entries.push({ name: fileName, kind: 'file', size: fileData.size, lastModified: fileData.lastModified });
 
-    } catch (error: any) {
-      if (error.name === 'AbortError') {
-        // User cancelled
-        return { files: [], dirHandle: null as any };
+      if (lastDotIndex === -1) continue;
+
+      const extension = fileName.substring(lastDotIndex).toLowerCase();
+      const nameWithoutExt = fileName.substring(0, lastDotIndex);
+
+      if (this.allowedExtensions.includes(extension)) {
+        const { metadata, dimensions } = await this.readHeader(fileData, extension);
+
+        const file: ImageFile = {
+          id: Math.random().toString(36).substr(2, 9),
+          originalName: nameWithoutExt,
+          extension: extension,
+          path,
+          directory,
+          size: fileData.size,
+          lastModified: fileData.lastModified,
+          fileObject: fileData,
+          handle, // Store the handle for renaming later
+          parentHandle, // Renames and resized copies are written next to the original
+          metadata,
+          width: dimensions?.width,
+          height: dimensions?.height
+        };
+        state.files.push(file);
+        state.pending.push(file);
+
+        if (state.pending.length >= CHUNK_SIZE) {
+          this.flush(state);
+          // Let the page render the chunk and handle a cancel
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
       }
-      throw error;
+    }
+  }
+
+  private flush(state: ScanState): void {
+    if (state.pending.length === 0) return;
+    state.options.onProgress?.(state.pending, state.entriesRead);
+    state.pending = [];
+  }
+
+  /**
+   * Reads the EXIF metadata and the pixel size with a single read of the start of the file.
+   */
+  private async readHeader(file: File, extension: string): Promise<{ metadata?: ImageMetadata; dimensions: ImageDimensions | null }> {
+    const hasExif = this.exifExtensions.includes(extension);
+    try {
+      const buffer = await file.slice(0, hasExif ? EXIF_HEADER_SIZE : DIMENSIONS_HEADER_SIZE).arrayBuffer();
+      const metadata = hasExif ? this.exifReader.parse(buffer) : undefined;
+      const dimensions = readDimensions(buffer);
+      // Sizes are compared and shown as the picture is seen, after the EXIF rotation
+      if (dimensions && swapsAxes(fromExifOrientation(metadata?.orientation))) {
+        return { metadata, dimensions: { width: dimensions.height, height: dimensions.width } };
+      }
+      return { metadata, dimensions };
+    } catch (error) {
+      console.warn('Failed to read the image header', error);
+      return { metadata: hasExif ? {} : undefined, dimensions: null };
     }
   }
 }
@@ -0,0 +1,259 @@
+import { ImageFile } from '../types';
+
+/**
+ * PatternEngine Service
+ * Tokenizes naming patterns such as "img_{num:000}_{name:lower}" and renders them per file.
+ *
+ * Syntax:
+ *   {token}            value of a registered token
+ *   {token:modifier}   value passed through a modifier (case, slice, padding, date format)
+ *   {{ and }}          literal braces
+ *   /                  folder separator, e.g. "{exif:date:YYYY}/{exif:date:MM}/{name}"
+ */
+
+export type TokenKind = 'text' | 'number' | 'date';
+
+export interface PatternContext {
+  file: ImageFile;
+  index: number; // Sequence number for {num}
+}
+
+// Date token value. EXIF dates are camera wall-clock times stored as UTC (see ExifReader.parseDate)
+// and formatted with UTC getters; modification dates are real instants, formatted in local time
+export interface DateValue {
+  timestamp: number;
+  wallClock: boolean;
+}
+
+export interface TokenDefinition {
+  name: string;
+  kind: TokenKind;
+  tooltipKey: string; // Translation key used by the token chips
+  defaultFormat?: string; // Date tokens only
+  resolve(context: PatternContext): string | number | DateValue;
+}
+
+export type PatternErrorCode =
+  | 'UNKNOWN_TOKEN'
+  | 'INVALID_MODIFIER'
+  | 'EMPTY_TOKEN'
+  | 'UNCLOSED_TOKEN'
+  | 'UNMATCHED_BRACE';
+
+export class PatternError extends Error {
+  public code: PatternErrorCode;
+  public position: number; // Index of the offending character in the pattern
+
+  constructor(code: PatternErrorCode, message: string, position: number) {
+    super(message);
+    this.name = 'PatternError';
+    this.code = code;
+    this.position = position;
+  }
+}
+
+export type PatternSegment =
+  | { type: 'literal'; value: string }
+  | { type: 'token'; token: TokenDefinition; modifier?: string };
+
+export interface ParsedPattern {
+  segments: PatternSegment[];
+  errors: PatternError[];
+}
+
+// Used by camera tokens when the file has no such EXIF tag
+const UNKNOWN_VALUE = 'unknown';
+
+const getModifiedDate = (file: ImageFile): DateValue => ({ timestamp: file.lastModified, wallClock: false });
+
+/**
+ * Capture date from EXIF when available, otherwise the file modification date.
+ */
+const getCaptureDate = (file: ImageFile): DateValue => file.metadata?.captureDate !== undefined
+  ? { timestamp: file.metadata.captureDate, wallClock: true }
+  : getModifiedDate(file);
+
+/**
+ * Registry of every token the pattern understands.
+ * The token chips under the pattern input are generated from this list.
+ */
+export const PATTERN_TOKENS: TokenDefinition[] = [
+  { name: 'num', kind: 'number', tooltipKey: 'seqTooltip', resolve: ({ index }) => index },
+  { name: 'name', kind: 'text', tooltipKey: 'origTooltip', resolve: ({ file }) => file.originalName },
+  { name: 'date', kind: 'date', tooltipKey: 'dateTooltip', defaultFormat: 'YYYY-MM-DD', resolve: ({ file }) => getModifiedDate(file) },
+  { name: 'exif:date', kind: 'date', tooltipKey: 'exifDateTooltip', defaultFormat: 'YYYY-MM-DD', resolve: ({ file }) => getCaptureDate(file) },
+  { name: 'exif:time', kind: 'date', tooltipKey: 'exifTimeTooltip', defaultFormat: 'HH-mm-ss', resolve: ({ file }) => getCaptureDate(file) },
+  { name: 'camera', kind: 'text', tooltipKey: 'cameraTooltip', resolve: ({ file }) => file.metadata?.model || file.metadata?.make || UNKNOWN_VALUE },
+  { name: 'lens', kind: 'text', tooltipKey: 'lensTooltip', resolve: ({ file }) => file.metadata?.lens || UNKNOWN_VALUE },
+  { name: 'iso', kind: 'text', tooltipKey: 'isoTooltip', resolve: ({ file }) => file.metadata?.iso ? file.metadata.iso.toString() : UNKNOWN_VALUE },
+  {
+    name: 'focal',
+    kind: 'text',
+    tooltipKey: 'focalTooltip',
+    resolve: ({ file }) => file.metadata?.focalLength ? `${Math.round(file.metadata.focalLength)}mm` : UNKNOWN_VALUE
+  },
+];
+
+const TEXT_MODIFIER = /^(upper|lower|slice\((-?\d+)(?:,\s*(-?\d+))?\))$/;
+const NUMBER_MODIFIER = /^\d+$/;
+const DATE_PART = /YYYY|YY|MM|DD|HH|mm|ss/g;
+const DATE_MODIFIER = /^(?:YYYY|YY|MM|DD|HH|mm|ss|[^A-Za-z])+$/;
+
+export class PatternEngine {
+
+  /**
+   * Splits a pattern into literal and token segments.
+   * Every problem is collected so they can all be shown at once.
+   */
+  public parse(pattern: string): ParsedPattern {
+    const segments: PatternSegment[] = [];
+    const errors: PatternError[] = [];
+    let literal = '';
+    let i = 0;
+
+    const flushLiteral = () => {
+      if (literal) {
+        segments.push({ type: 'literal', value: literal });
+        literal = '';
+      }
+    };
+
+    while (i < pattern.length) {
+      const char = pattern[i];
+
+      // Escaped braces
+      if ((char === '{' || char === '}') && pattern[i + 1] === char) {
+        literal += char;
+        i += 2;
+        continue;
+      }
+
+      if (char === '}') {
+        errors.push(new PatternError('UNMATCHED_BRACE', `Unexpected "}" at position ${i + 1}. Use "}}" for a literal brace.`, i));
+        i++;
+        continue;
+      }
+
+      if (char !== '{') {
+        literal += char;
+        i++;
+        continue;
+      }
+
+      const close = pattern.indexOf('}', i + 1);
+      const nextOpen = pattern.indexOf('{', i + 1);
+      if (close === -1 || (nextOpen !== -1 && nextOpen < close)) {
+        errors.push(new PatternError('UNCLOSED_TOKEN', `Token opened at position ${i + 1} is never closed. Use "{{" for a literal brace.`, i));
+        i++;
+        continue;
+      }
+
+      flushLiteral();
+      const segment = this.parseToken(pattern.substring(i + 1, close), i, errors);
+      if (segment) segments.push(segment);
+      i = close + 1;
+    }
+
+    flushLiteral();
+    return { segments, errors };
+  }
+
+  /**
+   * Renders a parsed pattern for one file.
+   */
+  public render(parsed: ParsedPattern, context: PatternContext): string {
+    return parsed.segments.map(segment => {
+      if (segment.type === 'literal') return segment.value;
+
+      const value = segment.token.resolve(context);
+      const text = this.applyModifier(segment.token, value, segment.modifier);
+      // Slashes in values (a lens named "f/2.8") must not open folders; date formats may use them on purpose
+      return segment.token.kind === 'text' ? text.replace(/\//g, '_') : text;
+    }).join('');
+  }
+
+  private parseToken(body: string, position: number, errors: PatternError[]): PatternSegment | null {
+    if (!body.trim()) {
+      errors.push(new PatternError('EMPTY_TOKEN', `Empty token "{}" at position ${position + 1}.`, position));
+      return null;
+    }
+
+    // Token names may contain ':' themselves (exif:date), so pick the longest registered match
+    const token = PATTERN_TOKENS
+      .filter(t => body === t.name || body.startsWith(`${t.name}:`))
+      .sort((a, b) => b.name.length - a.name.length)[0];
+
+    if (!token) {
+      const name = body.split(':')[0];
+      errors.push(new PatternError('UNKNOWN_TOKEN', `Unknown token "{${name}}" at position ${position + 1}.`, position));
+      return null;
+    }
+
+    const modifier = body.length > token.name.length ? body.substring(token.name.length + 1) : undefined;
+    if (modifier !== undefined && !this.isValidModifier(token.kind, modifier)) {
+      errors.push(new PatternError(
+        'INVALID_MODIFIER',
+        `Modifier "${modifier}" cannot be used with {${token.name}} at position ${position + 1}.`,
+        position
+      ));
+      return null;
+    }
+
+    return { type: 'token', token, modifier };
+  }
+
+  private isValidModifier(kind: TokenKind, modifier: string): boolean {
+    switch (kind) {
+      case 'text':
+        return TEXT_MODIFIER.test(modifier);
+      case 'number':
+        return NUMBER_MODIFIER.test(modifier);
+      case 'date':
+        // Only placeholders and separators, with at least one placeholder
+        return DATE_MODIFIER.test(modifier) && /[YMDHms]/.test(modifier);
+    }
+  }
+
+  private applyModifier(token: TokenDefinition, value: string | number | DateValue, modifier?: string): string {
+    switch (token.kind) {
+      case 'number': {
+        const numStr = value.toString();
+        // {num:000} pads to the number of digits in the modifier
+        return modifier ? numStr.padStart(modifier.length, '0') : numStr;
+      }
+      case 'date':
+        return this.formatDate(value as DateValue, modifier ?? token.defaultFormat ?? 'YYYY-MM-DD');
+      case 'text': {
+        const text = value.toString();
+        if (!modifier) return text;
+        if (modifier === 'upper') return text.toUpperCase();
+        if (modifier === 'lower') return text.toLowerCase();
+
+        const [, , start, end] = TEXT_MODIFIER.exec(modifier)!;
+        return text.slice(Number(start), end === undefined ? undefined : Number(end));
+      }
+    }
+  }
+
+  /**
+   * Formats a date with YYYY, YY, MM, DD, HH, mm and ss placeholders.
+   * UTC getters are only used for EXIF wall-clock times, so they come out unchanged.
+   */
+  private formatDate({ timestamp, wallClock }: DateValue, format: string): string {
+    const date = new Date(timestamp);
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    const year = wallClock ? date.getUTCFullYear() : date.getFullYear();
+
+    const parts: Record<string, string> = {
+      YYYY: year.toString(),
+      YY: year.toString().slice(-2),
+      MM: pad((wallClock ? date.getUTCMonth() : date.getMonth()) + 1),
+      DD: pad(wallClock ? date.getUTCDate() : date.getDate()),
+      HH: pad(wallClock ? date.getUTCHours() : date.getHours()),
+      mm: pad(wallClock ? date.getUTCMinutes() : date.getMinutes()),
+      ss: pad(wallClock ? date.getUTCSeconds() : date.getSeconds()),
+    };
+
+    return format.replace(DATE_PART, part => parts[part]);
+  }
+}
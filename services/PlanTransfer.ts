@@ -0,0 +1,120 @@
+import { ImageFile, MappingIssue, NameMapping, ProcessedFile, RenameConfig } from '../types';
+import { parseCsv, toCsv } from '../utils/csv';
+import { ImageRenamer } from './ImageRenamer';
+
+/**
+ * PlanTransfer Service
+ * Exports the previewed rename plan for review, and imports old_name,new_name mappings.
+ */
+export class PlanTransfer {
+  private renamer = new ImageRenamer();
+
+  public toCsv(files: ProcessedFile[], config: RenameConfig): string {
+    return toCsv([
+      ['original_path', 'new_path', 'size', 'status', 'error'],
+      ...this.getRows(files, config).map(row => [row.originalPath, row.newPath, row.size, row.status, row.error])
+    ]);
+  }
+
+  public toJson(files: ProcessedFile[], config: RenameConfig, rootName: string): string {
+    return JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      root: rootName,
+      config,
+      files: this.getRows(files, config)
+    }, null, 2);
+  }
+
+  /**
+   * Reads a CSV of old_name,new_name pairs and matches the old names to the scanned files.
+   * Old names may be a relative path or a bare file name, with or without extension;
+   * matching ignores case. A header row is skipped.
+   */
+  public parseMapping(text: string, fileName: string, files: ImageFile[]): NameMapping {
+    const names = new Map<string, string>();
+    const issues: MappingIssue[] = [];
+
+    // Lookup keys: full path, path without extension, name, name without extension
+    const byKey = new Map<string, ImageFile[]>();
+    const addKey = (key: string, file: ImageFile) => {
+      const list = byKey.get(key.toLowerCase()) ?? [];
+      if (!list.includes(file)) byKey.set(key.toLowerCase(), [...list, file]);
+    };
+    for (const file of files) {
+      const name = file.originalName + file.extension;
+      const base = file.directory ? `${file.directory}/` : '';
+      addKey(`${base}${name}`, file);
+      addKey(`${base}${file.originalName}`, file);
+      addKey(name, file);
+      addKey(file.originalName, file);
+    }
+
+    const rows = parseCsv(text);
+    const first = rows[0]?.map(field => field.trim().toLowerCase());
+    const hasHeader = first?.[0] === 'old_name' && first?.[1] === 'new_name';
+
+    const usedTargets = new Map<string, number>();
+    let rowCount = 0;
+
+    rows.forEach((row, index) => {
+      if (hasHeader && index === 0) return;
+      if (row.every(field => field.trim() === '')) return;
+      rowCount++;
+
+      const rowNumber = index + 1;
+      const oldName = (row[0] ?? '').trim().replace(/\\/g, '/').replace(/^\.?\//, '');
+      const newName = (row[1] ?? '').trim();
+      const issue = (kind: MappingIssue['kind']) => issues.push({ row: rowNumber, kind, oldName, newName });
+
+      if (!oldName || !newName) {
+        issue('invalid');
+        return;
+      }
+
+      const matches = byKey.get(oldName.toLowerCase()) ?? [];
+      if (matches.length === 0) {
+        issue('unmatched');
+        return;
+      }
+      if (matches.length > 1) {
+        issue('ambiguous');
+        return;
+      }
+
+      const file = matches[0];
+      if (names.has(file.id)) {
+        issue('duplicate');
+        return;
+      }
+
+      // The extension comes from the output format; drop it when the new name repeats it
+      const name = newName.toLowerCase().endsWith(file.extension.toLowerCase())
+        ? newName.substring(0, newName.length - file.extension.length)
+        : newName;
+      names.set(file.id, name);
+
+      // Same new name in one folder twice: the conflict policy decides, but point it out.
+      // New names with folders ("2024/img") start from the root
+      const targetPath = name.includes('/')
+        ? name.split('/').filter(Boolean).join('/')
+        : `${file.directory ? `${file.directory}/` : ''}${name}`;
+      const targetKey = targetPath.toLowerCase();
+      if (usedTargets.has(targetKey)) {
+        issue('duplicateTarget');
+      }
+      usedTargets.set(targetKey, rowNumber);
+    });
+
+    return { fileName, names, rowCount, issues };
+  }
+
+  private getRows(files: ProcessedFile[], config: RenameConfig) {
+    return files.map(file => ({
+      originalPath: file.path,
+      newPath: this.renamer.getTargetPath(file, config),
+      size: file.size,
+      status: file.status,
+      error: file.errorMessage ?? ''
+    }));
+  }
+}
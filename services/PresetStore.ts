@@ -0,0 +1,296 @@
+import { RenameConfig, RenameRule } from '../types';
+import { CASE_STYLES, RULE_TYPES } from './RuleEngine';
+import { DEFAULT_CONFIG } from '../utils/defaultConfig';
+
+export interface Preset {
+  name: string;
+  config: RenameConfig;
+}
+
+// Envelope of stored and exported presets
+const FILE_FORMAT = 'photon-rename-presets';
+const STORAGE_KEY = 'photon-presets';
+
+/**
+ * Schema version of the preset config.
+ * 1: original settings, with an `overwrite` flag instead of a conflict policy
+ * 2: conflict policies, subfolders, output format, resize modes, concurrency
+ * Fields added without a version change are optional and take their default when missing.
+ */
+export const PRESET_VERSION = 2;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+type FieldSpec =
+  | { type: 'string' }
+  | { type: 'boolean' }
+  | { type: 'number'; min: number; max?: number }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'custom'; check: (value: unknown) => string | null }; // Returns what was expected, null when valid
+
+// Fields of every rule type, besides id and enabled
+const RULE_FIELDS: Record<RenameRule['type'], Record<string, 'string' | 'number' | 'boolean' | readonly string[]>> = {
+  replace: { find: 'string', replace: 'string', ignoreCase: 'boolean' },
+  remove: { position: 'number', count: 'number', fromEnd: 'boolean' },
+  insert: { text: 'string', index: 'number', fromEnd: 'boolean' },
+  trim: {},
+  collapseWhitespace: {},
+  case: { style: CASE_STYLES },
+};
+
+const checkRules = (value: unknown): string | null => {
+  if (!Array.isArray(value)) return 'a list of rules';
+
+  for (const [index, rule] of value.entries()) {
+    const expected = `rule ${index}`;
+    if (!isRecord(rule) || typeof rule.id !== 'string' || typeof rule.enabled !== 'boolean') {
+      return `${expected} to have an id and an enabled flag`;
+    }
+    const fields = RULE_FIELDS[rule.type as RenameRule['type']];
+    if (!fields) {
+      return `${expected} to have a type among ${RULE_TYPES.join(', ')}`;
+    }
+    for (const [field, type] of Object.entries(fields)) {
+      const valid = typeof type === 'string'
+        ? typeof rule[field] === type && (type !== 'number' || (Number.isInteger(rule[field]) && (rule[field] as number) >= 0))
+        : type.includes(rule[field] as string);
+      if (!valid) {
+        return `${expected}.${field} to be ${typeof type === 'string' ? `a ${type}` : `one of ${type.join(', ')}`}`;
+      }
+    }
+  }
+  return null;
+};
+
+const checkStrings = (value: unknown): string | null =>
+  Array.isArray(value) && value.every(item => typeof item === 'string') ? null : 'a list of strings';
+
+const checkDate = (value: unknown): string | null =>
+  typeof value === 'string' && /^(\d{4}-\d{2}-\d{2})?$/.test(value) ? null : 'a YYYY-MM-DD date or an empty string';
+
+// Every config field with the values it accepts
+const CONFIG_SCHEMA: Record<keyof RenameConfig, FieldSpec> = {
+  pattern: { type: 'string' },
+  startNumber: { type: 'number', min: 0 },
+  recursive: { type: 'boolean' },
+  numberingScope: { type: 'enum', values: ['global', 'folder'] },
+  dryRun: { type: 'boolean' },
+  sortKey: { type: 'enum', values: ['name', 'modified', 'captureDate', 'size', 'dimensions', 'manual'] },
+  sortDirection: { type: 'enum', values: ['asc', 'desc'] },
+  includeGlobs: { type: 'custom', check: checkStrings },
+  excludeGlobs: { type: 'custom', check: checkStrings },
+  excludedExtensions: { type: 'custom', check: checkStrings },
+  minSize: { type: 'number', min: 0 },
+  maxSize: { type: 'number', min: 0 },
+  dateFilterField: { type: 'enum', values: ['modified', 'captureDate'] },
+  dateFrom: { type: 'custom', check: checkDate },
+  dateTo: { type: 'custom', check: checkDate },
+  conflictPolicy: { type: 'enum', values: ['skip', 'suffix', 'newer', 'larger', 'overwrite'] },
+  conflictSuffixFormat: { type: 'string' },
+  conflictSuffixStart: { type: 'number', min: 0 },
+  removeEmptyFolders: { type: 'boolean' },
+  prefix: { type: 'string' },
+  suffix: { type: 'string' },
+  rules: { type: 'custom', check: checkRules },
+  ruleMode: { type: 'enum', values: ['before', 'instead'] },
+  targetPlatform: { type: 'enum', values: ['windows', 'macos', 'linux', 'portable'] },
+  autoSanitize: { type: 'boolean' },
+  transliterate: { type: 'boolean' },
+  enableResize: { type: 'boolean' },
+  resizeMode: { type: 'enum', values: ['width', 'height', 'longEdge', 'fit', 'percent', 'crop'] },
+  resizeWidth: { type: 'number', min: 1 },
+  resizeHeight: { type: 'number', min: 1 },
+  resizeLongEdge: { type: 'number', min: 1 },
+  resizePercent: { type: 'number', min: 1, max: 100 },
+  cropAspectWidth: { type: 'number', min: 1 },
+  cropAspectHeight: { type: 'number', min: 1 },
+  cropAnchor: {
+    type: 'enum',
+    values: ['top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right']
+  },
+  resizeQuality: { type: 'number', min: 1, max: 100 },
+  keepOriginals: { type: 'boolean' },
+  outputFormat: { type: 'enum', values: ['keep', 'jpeg', 'png', 'webp', 'avif'] },
+  exifMode: { type: 'enum', values: ['keep', 'update', 'drop'] },
+  xmpMode: { type: 'enum', values: ['keep', 'update', 'drop'] },
+  iccMode: { type: 'enum', values: ['keep', 'drop'] },
+  privacyMode: { type: 'boolean' },
+  concurrency: { type: 'number', min: 1, max: 16 },
+};
+
+// Upgrades a config of the given version by one step
+const MIGRATIONS: Record<number, (config: Record<string, unknown>) => Record<string, unknown>> = {
+  1: ({ overwrite, ...config }) => ({
+    ...config,
+    conflictPolicy: overwrite === true ? 'overwrite' : 'skip'
+  }),
+};
+
+/**
+ * PresetStore Service
+ * Keeps named configurations in localStorage and reads/writes them as versioned JSON files.
+ */
+export class PresetStore {
+
+  public list(): Preset[] {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const { presets, errors } = this.parse(stored);
+    if (errors.length > 0) {
+      console.warn('Ignoring invalid stored presets', errors);
+    }
+    return presets;
+  }
+
+  /**
+   * Saves a preset, replacing the one with the same name. Returns the updated list.
+   */
+  public save(name: string, config: RenameConfig): Preset[] {
+    const presets = [...this.list().filter(p => p.name !== name), { name, config }]
+      .sort((a, b) => a.name.localeCompare(b.name));
+    this.write(presets);
+    return presets;
+  }
+
+  public remove(name: string): Preset[] {
+    const presets = this.list().filter(p => p.name !== name);
+    this.write(presets);
+    return presets;
+  }
+
+  /**
+   * Adds imported presets, replacing existing ones with the same name. Returns the updated list.
+   */
+  public merge(imported: Preset[]): Preset[] {
+    const names = new Set(imported.map(p => p.name));
+    const presets = [...this.list().filter(p => !names.has(p.name)), ...imported]
+      .sort((a, b) => a.name.localeCompare(b.name));
+    this.write(presets);
+    return presets;
+  }
+
+  public serialize(presets: Preset[]): string {
+    return JSON.stringify({ format: FILE_FORMAT, version: PRESET_VERSION, presets }, null, 2);
+  }
+
+  /**
+   * Reads a presets file, upgrading older versions.
+   * Any error rejects the whole file; errors name the offending field.
+   */
+  public parse(json: string): { presets: Preset[]; errors: string[] } {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      return { presets: [], errors: ['Not a valid JSON file'] };
+    }
+
+    if (!isRecord(data) || data.format !== FILE_FORMAT || !Array.isArray(data.presets)) {
+      return { presets: [], errors: ['Not a presets file'] };
+    }
+
+    const version = data.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      return { presets: [], errors: ['Missing or invalid version'] };
+    }
+    if (version > PRESET_VERSION) {
+      return { presets: [], errors: [`Version ${version} was written by a newer release (this one reads up to ${PRESET_VERSION})`] };
+    }
+
+    const presets: Preset[] = [];
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    data.presets.forEach((entry: unknown, index: number) => {
+      const at = `presets[${index}]`;
+      if (!isRecord(entry) || typeof entry.name !== 'string' || entry.name.trim() === '') {
+        errors.push(`${at}: missing name`);
+        return;
+      }
+      if (seen.has(entry.name)) {
+        errors.push(`${at}: duplicate name "${entry.name}"`);
+        return;
+      }
+      seen.add(entry.name);
+
+      if (!isRecord(entry.config)) {
+        errors.push(`${at}.config: missing settings`);
+        return;
+      }
+
+      let config = entry.config;
+      for (let v = version; v < PRESET_VERSION; v++) {
+        config = MIGRATIONS[v](config);
+      }
+
+      const validated = this.validate(config, `${at}.config`, errors);
+      if (validated) {
+        presets.push({ name: entry.name, config: validated });
+      }
+    });
+
+    return errors.length > 0 ? { presets: [], errors } : { presets, errors };
+  }
+
+  /**
+   * Checks a single config, e.g. assembled from command line flags.
+   * Missing fields take their value from the base config.
+   */
+  public validateConfig(config: Record<string, unknown>, base: RenameConfig = DEFAULT_CONFIG): { config: RenameConfig | null; errors: string[] } {
+    const errors: string[] = [];
+    const validated = this.validate(config, 'config', errors, base);
+    return { config: validated, errors };
+  }
+
+  /**
+   * Checks every known field; missing fields take their default, unknown fields are dropped.
+   */
+  private validate(config: Record<string, unknown>, at: string, errors: string[], base: RenameConfig = DEFAULT_CONFIG): RenameConfig | null {
+    const result: Record<string, unknown> = { ...base };
+    const before = errors.length;
+
+    for (const [field, spec] of Object.entries(CONFIG_SCHEMA) as [keyof RenameConfig, FieldSpec][]) {
+      const value = config[field];
+      if (value === undefined) continue;
+
+      switch (spec.type) {
+        case 'string':
+        case 'boolean':
+          if (typeof value !== spec.type) {
+            errors.push(`${at}.${field}: expected a ${spec.type}`);
+            continue;
+          }
+          break;
+        case 'number':
+          if (typeof value !== 'number' || !Number.isFinite(value) || value < spec.min || (spec.max !== undefined && value > spec.max)) {
+            errors.push(`${at}.${field}: expected a number ${spec.max !== undefined ? `from ${spec.min} to ${spec.max}` : `of at least ${spec.min}`}`);
+            continue;
+          }
+          break;
+        case 'enum':
+          if (typeof value !== 'string' || !spec.values.includes(value)) {
+            errors.push(`${at}.${field}: expected one of ${spec.values.join(', ')}`);
+            continue;
+          }
+          break;
+        case 'custom': {
+          const expected = spec.check(value);
+          if (expected) {
+            errors.push(`${at}.${field}: expected ${expected}`);
+            continue;
+          }
+          break;
+        }
+      }
+      result[field] = value;
+    }
+
+    return errors.length === before ? result as unknown as RenameConfig : null;
+  }
+
+  private write(presets: Preset[]): void {
+    localStorage.setItem(STORAGE_KEY, this.serialize(presets));
+  }
+}
@@ -0,0 +1,159 @@
+import { FileStatus, JournalEntry, ProcessedFile, RenameConfig, ScanResult } from '../types';
+import { FileSystemAdapter, joinPath, removeEmptyDirectories } from './FileSystemAdapter';
+import { FileFilter } from './FileFilter';
+import { ImageRenamer } from './ImageRenamer';
+import { ImageTaskResult } from './ImageResizer';
+import { ImageScanner } from './ImageScanner';
+import { RenamePlanner } from './RenamePlanner';
+import { sortFiles } from '../utils/sortFiles';
+
+export interface EngineResult {
+  files: ProcessedFile[]; // Rows of the plan, with SUCCESS or ERROR set on the executed ones
+  renamed: number;
+  failed: number;
+  removedFolders: string[]; // Folders emptied by the batch and removed (removeEmptyFolders)
+  entries: JournalEntry[]; // What was written, for the undo journal
+}
+
+export interface ExecuteOptions {
+  backupFolder?: string; // Where overwritten and re-encoded files are copied first, for undo
+  onRow?: (row: ProcessedFile, entry: JournalEntry | null) => void | Promise<void>; // Awaited as each row finishes
+}
+
+/**
+ * RenameEngine Service
+ * Scans, previews and renames a batch through a FileSystemAdapter, without any UI.
+ * The web app and the CLI both run their batches through this, each with its own adapter
+ * and with the image encoder of its ImageRenamer.
+ */
+export class RenameEngine {
+  private scanner = new ImageScanner();
+  private fileFilter = new FileFilter();
+  private planner = new RenamePlanner();
+
+  constructor(private renamer: ImageRenamer = new ImageRenamer()) { }
+
+  public scan(adapter: FileSystemAdapter, config: RenameConfig): Promise<ScanResult> {
+    return this.scanner.scan(adapter, config.recursive);
+  }
+
+  /**
+   * Rows of the batch in config order, with filtered files skipped.
+   */
+  public preview(scan: ScanResult, config: RenameConfig, manualOrder: string[] = []): ProcessedFile[] {
+    const files = sortFiles(scan.files, config.sortKey, config.sortDirection, manualOrder);
+    const excluded = this.fileFilter.isActive(config) ? this.fileFilter.apply(files, config) : undefined;
+    return this.renamer.generatePreview(files, config, { listing: scan.listing, excluded });
+  }
+
+  /**
+   * Settings the engine can't apply, as messages; empty when the batch can run.
+   */
+  public getUnsupported(config: RenameConfig): string[] {
+    const unsupported: string[] = [];
+    if (!this.renamer.canDecode()) {
+      if (config.enableResize) unsupported.push('Resizing is not available without an image decoder');
+      if (config.outputFormat !== 'keep') unsupported.push('Format conversion is not available without an image decoder');
+    }
+    return unsupported;
+  }
+
+  /**
+   * Renames the PENDING rows in plan order, resizing or converting them on the way.
+   * A failed row is left as ERROR and the rest of the batch continues.
+   */
+  public async execute(
+    adapter: FileSystemAdapter,
+    files: ProcessedFile[],
+    config: RenameConfig,
+    options: ExecuteOptions = {}
+  ): Promise<EngineResult> {
+    const unsupported = this.getUnsupported(config);
+    if (unsupported.length > 0) {
+      throw new Error(unsupported.join('; '));
+    }
+
+    const rows = new Map(files.map(file => [file.id, { ...file }]));
+    const executable = files.filter(file => file.status === FileStatus.PENDING);
+    const steps = this.planner.plan(
+      executable.map(file => ({
+        id: file.id,
+        directory: file.directory,
+        from: this.renamer.getSourceFileName(file),
+        to: this.renamer.getTargetFileName(file, config),
+        targetDirectory: file.targetDirectory
+      })),
+      !config.keepOriginals
+    );
+
+    // Current name of every file, parked ones sit under their temporary name
+    const currentNames = new Map(executable.map(file => [file.id, this.renamer.getSourceFileName(file)]));
+    const parkedNames = new Map<string, string>();
+    const entries: JournalEntry[] = [];
+    let renamed = 0;
+    let failed = 0;
+
+    // Images are decoded and encoded ahead while the file system operations run in plan order.
+    // The window bounds how many results wait in memory.
+    const moveOrder = steps.filter(step => step.type === 'move').map(step => step.operation.id);
+    const prepared = new Map<string, Promise<ImageTaskResult | null>>();
+    let started = 0;
+    let reached = 0;
+    const prefetch = () => {
+      while (started < moveOrder.length && started < reached + config.concurrency * 2) {
+        const row = rows.get(moveOrder[started++])!;
+        const work = adapter.open(joinPath(row.directory, currentNames.get(row.id)!))
+          .then(({ file }) => this.renamer.prepareContent(row, config, file));
+        work.catch(() => { }); // Reported by executeRename
+        prepared.set(row.id, work);
+      }
+    };
+
+    prefetch();
+    for (const step of steps) {
+      const { operation } = step;
+      const row = rows.get(operation.id)!;
+      if (step.type === 'move') {
+        reached++;
+        prefetch();
+      }
+      if (row.status === FileStatus.ERROR) continue;
+
+      const from = currentNames.get(operation.id)!;
+      let entry: JournalEntry | null = null;
+      try {
+        if (step.type === 'park') {
+          // The encoder may still be reading the file. Parked files wait in their own folder.
+          await prepared.get(operation.id)?.catch(() => null);
+          await adapter.move(operation.directory, from, step.tempName);
+          currentNames.set(operation.id, step.tempName);
+          parkedNames.set(operation.id, step.tempName);
+          continue;
+        }
+        entry = await this.renamer.executeRename(row, adapter, config, from, options.backupFolder, prepared.get(operation.id));
+        if (entry) entries.push(entry);
+        row.status = FileStatus.SUCCESS;
+        renamed++;
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        const parkedName = parkedNames.get(operation.id);
+        row.status = FileStatus.ERROR;
+        row.errorMessage = parkedName
+          ? `Write/Move failed: ${reason} (file left as ${parkedName})`
+          : `Write/Move failed: ${reason}`;
+        failed++;
+      }
+      prepared.delete(operation.id);
+      await options.onRow?.(row, entry);
+    }
+
+    // Folders that files moved out of
+    const removedFolders = config.removeEmptyFolders && !config.keepOriginals
+      ? await removeEmptyDirectories(adapter, [...rows.values()]
+        .filter(row => row.status === FileStatus.SUCCESS && row.targetDirectory !== undefined)
+        .map(row => row.directory))
+      : [];
+
+    return { files: [...rows.values()], renamed, failed, removedFolders, entries };
+  }
+}
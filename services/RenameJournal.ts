@@ -0,0 +1,246 @@
+import { JournalEntry, RenameBatch, RevertResult } from '../types';
+import { openDatabase, promisifyRequest } from '../utils/idb';
+import { getExistingFile, resolveDirectory, writeFile } from '../utils/fileSystem';
+import { RenamePlanner, getPathKey } from './RenamePlanner';
+
+const DB_NAME = 'photon-rename';
+const DB_VERSION = 1;
+const BATCH_STORE = 'batches';
+
+// Hidden folder inside the picked directory that holds original content
+// destroyed by a batch (resized files, overwritten targets)
+export const BACKUP_FOLDER = '.photon-backup';
+
+/**
+ * RenameJournal Service
+ * Records every executed batch in IndexedDB so it can be reverted later.
+ */
+export class RenameJournal {
+  private db: Promise<IDBDatabase> | null = null;
+  private planner = new RenamePlanner();
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(BATCH_STORE)) {
+          db.createObjectStore(BATCH_STORE, { keyPath: 'id' });
+        }
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * A new, empty batch for the given folder.
+   */
+  public createBatch(dirHandle: FileSystemDirectoryHandle): RenameBatch {
+    return {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`,
+      createdAt: Date.now(),
+      rootName: dirHandle.name,
+      rootHandle: dirHandle,
+      entries: []
+    };
+  }
+
+  public async saveBatch(batch: RenameBatch): Promise<void> {
+    const db = await this.getDatabase();
+    const tx = db.transaction(BATCH_STORE, 'readwrite');
+    await promisifyRequest(tx.objectStore(BATCH_STORE).put(batch));
+  }
+
+  public async deleteBatch(batchId: string): Promise<void> {
+    const db = await this.getDatabase();
+    const tx = db.transaction(BATCH_STORE, 'readwrite');
+    await promisifyRequest(tx.objectStore(BATCH_STORE).delete(batchId));
+  }
+
+  /**
+   * All recorded batches, newest first.
+   */
+  public async listBatches(): Promise<RenameBatch[]> {
+    const db = await this.getDatabase();
+    const tx = db.transaction(BATCH_STORE, 'readonly');
+    const batches = await promisifyRequest(tx.objectStore(BATCH_STORE).getAll()) as RenameBatch[];
+    return batches.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Whether the batch was executed against the given folder.
+   */
+  public async isSameFolder(batch: RenameBatch, dirHandle: FileSystemDirectoryHandle): Promise<boolean> {
+    try {
+      return await batch.rootHandle.isSameEntry(dirHandle);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Folder, relative to the picked one, that receives the backups of a batch.
+   */
+  public getBackupFolder(batchId: string): string {
+    return `${BACKUP_FOLDER}/${batchId}`;
+  }
+
+  /**
+   * Restores the original names (and content) of a batch.
+   * Files that changed since the batch, or whose original name is taken again, are left alone.
+   * Restores are ordered by the planner, so swapped names (a↔b) revert cleanly too.
+   * Files that the batch moved into other folders go back to theirs, recreated if they were removed.
+   * Each restored entry is marked; the batch counts as reverted once all of them are, so refused
+   * files can be retried later and their backups are kept until then.
+   */
+  public async revertBatch(batch: RenameBatch, dirHandle: FileSystemDirectoryHandle): Promise<RevertResult> {
+    const result: RevertResult = { restored: 0, refused: [] };
+    const backupDir = await this.getBackupDirectory(dirHandle, batch.id);
+    const locationOf = (entry: JournalEntry) => entry.targetDirectory ?? entry.directory;
+    const labelOf = (entry: JournalEntry) => locationOf(entry) ? `${locationOf(entry)}/${entry.newName}` : entry.newName;
+    const refuse = (entry: JournalEntry, reason: string) => result.refused.push({ name: labelOf(entry), reason });
+    const reverted = new Set<JournalEntry>();
+
+    // 1. Check every written file is still exactly as the batch left it
+    const candidates: {
+      entry: JournalEntry;
+      folder: FileSystemDirectoryHandle; // Where the batch wrote the file
+      origin: FileSystemDirectoryHandle; // Where the original name goes back
+      location: FileSystemFileHandle;
+    }[] = [];
+    for (const entry of batch.entries.filter(e => !e.revertedAt)) {
+      try {
+        const folder = await resolveDirectory(dirHandle, locationOf(entry));
+        const location = await getExistingFile(folder, entry.newName);
+        if (!location) {
+          refuse(entry, 'File no longer exists');
+          continue;
+        }
+
+        const currentFile = await location.getFile();
+        if (currentFile.size !== entry.size || currentFile.lastModified !== entry.lastModified) {
+          refuse(entry, 'File was modified after the batch');
+          continue;
+        }
+
+        if ((entry.backupPath || entry.replacedBackupPath) && !backupDir) {
+          refuse(entry, 'Backup folder is missing');
+          continue;
+        }
+
+        const origin = entry.targetDirectory !== undefined ? await resolveDirectory(dirHandle, entry.directory, true) : folder;
+        candidates.push({ entry, folder, origin, location });
+      } catch (error) {
+        console.error(`Failed to check ${labelOf(entry)}`, error);
+        refuse(entry, 'Restore failed');
+      }
+    }
+
+    // 2. An original name may only be taken by a file this revert moves away
+    const freed = new Set(
+      candidates.filter(c => !c.entry.keptOriginal).map(c => getPathKey(locationOf(c.entry), c.entry.newName))
+    );
+    const valid: typeof candidates = [];
+    for (const candidate of candidates) {
+      const { entry, origin } = candidate;
+      const renamed = entry.originalName !== entry.newName || entry.targetDirectory !== undefined;
+      if (!entry.keptOriginal && renamed
+        && !freed.has(getPathKey(entry.directory, entry.originalName))
+        && await getExistingFile(origin, entry.originalName)) {
+        refuse(entry, `"${entry.originalName}" already exists`);
+        continue;
+      }
+      valid.push(candidate);
+    }
+
+    // 3. Copies added next to kept originals are simply removed
+    for (const { entry, folder } of valid.filter(c => c.entry.keptOriginal)) {
+      try {
+        await folder.removeEntry(entry.newName);
+        reverted.add(entry);
+        result.restored++;
+      } catch (error) {
+        console.error(`Failed to revert ${labelOf(entry)}`, error);
+        refuse(entry, 'Restore failed');
+      }
+    }
+
+    // 4. Everything else moves back to its original name
+    const moving = new Map(valid.filter(c => !c.entry.keptOriginal).map((c, index) => [index.toString(), c]));
+    const steps = this.planner.plan([...moving].map(([id, { entry }]) => ({
+      id,
+      directory: locationOf(entry),
+      from: entry.newName,
+      to: entry.originalName,
+      targetDirectory: entry.targetDirectory !== undefined ? entry.directory : undefined
+    })));
+    const failed = new Set<string>();
+    const restoredEntries: typeof valid = [];
+
+    for (const step of steps) {
+      const id = step.operation.id;
+      const candidate = moving.get(id)!;
+      const { entry, folder, origin } = candidate;
+      if (failed.has(id)) continue;
+
+      try {
+        if (step.type === 'park') {
+          const parked = await writeFile(folder, step.tempName, await candidate.location.getFile());
+          await folder.removeEntry(candidate.location.name);
+          candidate.location = parked;
+          continue;
+        }
+
+        const content = entry.backupPath
+          ? await (await backupDir!.getFileHandle(entry.backupPath)).getFile()
+          : await candidate.location.getFile();
+        await writeFile(origin, entry.originalName, content);
+        if (origin !== folder || candidate.location.name !== entry.originalName) {
+          await folder.removeEntry(candidate.location.name);
+        }
+
+        restoredEntries.push(candidate);
+        reverted.add(entry);
+        result.restored++;
+      } catch (error) {
+        console.error(`Failed to revert ${labelOf(entry)}`, error);
+        failed.add(id);
+        refuse(entry, 'Restore failed');
+      }
+    }
+
+    // 5. Put back files that the batch had overwritten, once their names are free again
+    for (const { entry, folder } of [...valid.filter(c => c.entry.keptOriginal), ...restoredEntries]) {
+      if (!entry.replacedBackupPath) continue;
+      try {
+        const replaced = await (await backupDir!.getFileHandle(entry.replacedBackupPath)).getFile();
+        await writeFile(folder, entry.newName, replaced);
+      } catch (error) {
+        console.error(`Failed to restore the overwritten ${labelOf(entry)}`, error);
+        refuse(entry, 'Overwritten file could not be restored');
+      }
+    }
+
+    const now = Date.now();
+    const entries = batch.entries.map(entry => reverted.has(entry) ? { ...entry, revertedAt: now } : entry);
+    const complete = entries.every(entry => entry.revertedAt);
+    await this.saveBatch({ ...batch, entries, revertedAt: complete ? now : undefined });
+
+    // Backups are no longer needed once everything is back in place
+    if (complete && result.refused.length === 0 && backupDir) {
+      const backupRoot = await dirHandle.getDirectoryHandle(BACKUP_FOLDER);
+      await backupRoot.removeEntry(batch.id, { recursive: true });
+    }
+
+    return result;
+  }
+
+  private async getBackupDirectory(
+    dirHandle: FileSystemDirectoryHandle,
+    batchId: string
+  ): Promise<FileSystemDirectoryHandle | null> {
+    try {
+      return await resolveDirectory(dirHandle, this.getBackupFolder(batchId));
+    } catch {
+      return null;
+    }
+  }
+}
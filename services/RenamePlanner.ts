@@ -0,0 +1,102 @@
+/**
+ * RenamePlanner Service
+ * Orders file moves so that no move lands on a name another move still has to vacate.
+ *
+ * a→b while b→c must run b→c first; cycles such as a→b, b→a (and case-only
+ * renames on case-insensitive file systems) are routed through a temporary name.
+ */
+
+export interface MoveOperation {
+  id: string;
+  directory: string; // Relative folder of the current name
+  from: string; // Current file name (with extension)
+  to: string; // Target file name (with extension)
+  targetDirectory?: string; // Folder of the target name when the file leaves its folder
+}
+
+export type PlanStep =
+  | { type: 'park'; operation: MoveOperation; tempName: string } // Move aside to a temporary name
+  | { type: 'move'; operation: MoveOperation }; // Final move to the target name
+
+const TEMP_PREFIX = '.photon-tmp-';
+
+/**
+ * Key of a file inside the picked folder. Names are case-insensitive by default because
+ * Windows and macOS file systems ignore case. The planner always folds case: it orders moves
+ * on whatever file system runs the batch, and folding at worst parks a file it didn't need to.
+ */
+export const getPathKey = (directory: string, name: string, caseSensitive: boolean = false): string => {
+  const key = `${directory}/${name}`;
+  return caseSensitive ? key : key.toLowerCase();
+};
+
+const getTargetKey = (operation: MoveOperation): string =>
+  getPathKey(operation.targetDirectory ?? operation.directory, operation.to);
+
+export class RenamePlanner {
+
+  /**
+   * Builds the ordered list of steps for a batch.
+   * @param operations - Moves of the batch, in their preferred order
+   * @param freesSource - false when sources stay in place (keep originals), so nothing waits on them
+   */
+  public plan(operations: MoveOperation[], freesSource: boolean = true): PlanStep[] {
+    const steps: PlanStep[] = [];
+    if (!freesSource) {
+      return operations.map(operation => ({ type: 'move', operation }));
+    }
+
+    // Which operation currently occupies a given name
+    const occupant = new Map<string, MoveOperation>();
+    for (const operation of operations) {
+      occupant.set(getPathKey(operation.directory, operation.from), operation);
+    }
+
+    const parked = new Set<string>();
+    const park = (operation: MoveOperation) => {
+      steps.push({ type: 'park', operation, tempName: this.getTempName(operation) });
+      parked.add(operation.id);
+      occupant.delete(getPathKey(operation.directory, operation.from));
+    };
+
+    // Case-only renames would overwrite themselves on case-insensitive file systems
+    for (const operation of operations) {
+      if (operation.from !== operation.to && getPathKey(operation.directory, operation.from) === getTargetKey(operation)) {
+        park(operation);
+      }
+    }
+
+    let pending = [...operations];
+    while (pending.length > 0) {
+      const blocked: MoveOperation[] = [];
+
+      for (const operation of pending) {
+        const blocker = occupant.get(getTargetKey(operation));
+        if (blocker && blocker !== operation) {
+          blocked.push(operation);
+          continue;
+        }
+
+        steps.push({ type: 'move', operation });
+        if (!parked.has(operation.id)) {
+          occupant.delete(getPathKey(operation.directory, operation.from));
+        }
+      }
+
+      // Every remaining move waits on another one: it's a cycle, park one member to break it
+      if (blocked.length === pending.length) {
+        park(occupant.get(getTargetKey(blocked[0]))!);
+      }
+
+      pending = blocked;
+    }
+
+    return steps;
+  }
+
+  public getTempName(operation: MoveOperation): string {
+    const dot = operation.from.lastIndexOf('.');
+    const extension = dot === -1 ? '' : operation.from.substring(dot);
+    return `${TEMP_PREFIX}${operation.id}${extension}`;
+  }
+}
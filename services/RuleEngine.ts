@@ -0,0 +1,123 @@
+import { CaseStyle, RenameRule } from '../types';
+
+/**
+ * RuleEngine Service
+ * Applies the rename rule chain (regex replace, remove, insert, trim, whitespace, case) to a name.
+ */
+
+export const RULE_TYPES: RenameRule['type'][] = ['replace', 'remove', 'insert', 'trim', 'collapseWhitespace', 'case'];
+
+export const CASE_STYLES: CaseStyle[] = ['upper', 'lower', 'title', 'camel', 'kebab', 'snake'];
+
+// Words of a name: split at separators and at lower→upper camel humps
+const splitWords = (name: string): string[] =>
+  name
+    .replace(/(\p{Ll}|\p{N})(\p{Lu})/gu, '$1 $2')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+const capitalize = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+export const changeCase = (name: string, style: CaseStyle): string => {
+  switch (style) {
+    case 'upper':
+      return name.toUpperCase();
+    case 'lower':
+      return name.toLowerCase();
+    case 'title':
+      // Separators are kept, only the first letter of every word is raised
+      return name.replace(/\p{L}[\p{L}\p{N}']*/gu, capitalize);
+    case 'camel':
+      return splitWords(name).map((word, i) => i === 0 ? word.toLowerCase() : capitalize(word)).join('');
+    case 'kebab':
+      return splitWords(name).map(word => word.toLowerCase()).join('-');
+    case 'snake':
+      return splitWords(name).map(word => word.toLowerCase()).join('_');
+  }
+};
+
+/**
+ * Creates a rule of the given type with neutral settings.
+ */
+export const createRule = (type: RenameRule['type']): RenameRule => {
+  const base = { id: Math.random().toString(36).substr(2, 9), enabled: true };
+  switch (type) {
+    case 'replace':
+      return { ...base, type, find: '', replace: '', ignoreCase: false };
+    case 'remove':
+      return { ...base, type, position: 0, count: 1, fromEnd: false };
+    case 'insert':
+      return { ...base, type, text: '', index: 0, fromEnd: false };
+    case 'case':
+      return { ...base, type, style: 'lower' };
+    default:
+      return { ...base, type };
+  }
+};
+
+export class RuleEngine {
+
+  /**
+   * Error message for a rule that cannot be applied, or null when it is fine.
+   */
+  public validate(rule: RenameRule): string | null {
+    if (rule.type !== 'replace') return null;
+    if (rule.find === '') return 'The search expression is empty';
+    try {
+      new RegExp(rule.find, 'u');
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Errors of the enabled rules, by rule id.
+   */
+  public validateAll(rules: RenameRule[]): Map<string, string> {
+    const errors = new Map<string, string>();
+    rules.filter(rule => rule.enabled).forEach(rule => {
+      const error = this.validate(rule);
+      if (error) errors.set(rule.id, error);
+    });
+    return errors;
+  }
+
+  /**
+   * Runs the enabled rules in order. Rules must have been validated.
+   */
+  public apply(name: string, rules: RenameRule[]): string {
+    return rules.reduce((current, rule) => rule.enabled ? this.applyRule(current, rule) : current, name);
+  }
+
+  private applyRule(name: string, rule: RenameRule): string {
+    // Positions count characters, not UTF-16 units, so accents and emoji aren't split
+    const chars = Array.from(name);
+    const clamp = (value: number) => Math.max(0, Math.min(chars.length, value));
+
+    switch (rule.type) {
+      case 'replace':
+        return name.replace(new RegExp(rule.find, rule.ignoreCase ? 'giu' : 'gu'), rule.replace);
+
+      case 'remove': {
+        const start = clamp(rule.fromEnd ? chars.length - rule.position - rule.count : rule.position);
+        const end = clamp(rule.fromEnd ? chars.length - rule.position : rule.position + rule.count);
+        return [...chars.slice(0, start), ...chars.slice(end)].join('');
+      }
+
+      case 'insert': {
+        const at = clamp(rule.fromEnd ? chars.length - rule.index : rule.index);
+        return [...chars.slice(0, at), rule.text, ...chars.slice(at)].join('');
+      }
+
+      case 'trim':
+        return name.trim();
+
+      case 'collapseWhitespace':
+        return name.replace(/\s+/g, ' ');
+
+      case 'case':
+        return changeCase(name, rule.style);
+    }
+  }
+}
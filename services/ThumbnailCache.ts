@@ -0,0 +1,186 @@
+import { ImageFile } from '../types';
+import { openDatabase, promisifyRequest } from '../utils/idb';
+import { WorkerPool } from './WorkerPool';
+import { ImageResizer } from './ImageResizer';
+
+// Work sent to the thumbnail worker for one file
+export interface ThumbnailTask {
+  file: Blob;
+  size: number; // Short edge of the thumbnail in pixels
+  width?: number; // Pixel size from the file header, lets the decoder downscale
+  height?: number;
+}
+
+interface ThumbnailRecord {
+  key: string;
+  blob: Blob;
+  bytes: number;
+  lastUsed: number;
+}
+
+const DB_NAME = 'photon-thumbnails';
+const DB_VERSION = 1;
+const STORE = 'thumbnails';
+const LAST_USED_INDEX = 'lastUsed';
+
+// Rows show 40px previews, twice that for high-density screens
+const THUMBNAIL_SIZE = 96;
+
+// The cache is trimmed to LOW_WATER once it grows past MAX_BYTES, least recently used first
+const MAX_BYTES = 50 * 1024 * 1024;
+const LOW_WATER = 40 * 1024 * 1024;
+// Entries not shown for this long are dropped the first time the cache is written in a session
+const MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+// lastUsed is only rewritten when older than this, so scrolling doesn't write on every row
+const TOUCH_INTERVAL = 24 * 60 * 60 * 1000;
+
+// Formats the worker can't decode; the original file is small enough to show as is
+const PASSTHROUGH_EXTENSIONS = ['.svg'];
+
+/**
+ * ThumbnailCache Service
+ * Small previews generated once in a worker and kept in IndexedDB across sessions.
+ * Entries are keyed by name, size and modification date, so a rescan or a renamed copy of
+ * an unchanged file finds its thumbnail again, and an edited file gets a new one.
+ */
+export class ThumbnailCache {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private pool: WorkerPool<ThumbnailTask, Blob> | null = null;
+  private pending = new Map<string, Promise<Blob | null>>();
+  private totalBytes: number | null = null; // Measured on the first eviction pass
+  private eviction: Promise<void> = Promise.resolve(); // Passes run one at a time
+
+  public static getKey(file: ImageFile): string {
+    return `${file.originalName}${file.extension}|${file.size}|${file.lastModified}`;
+  }
+
+  /**
+   * Thumbnail of a file, from the cache or generated. Null when the browser can't decode the image.
+   */
+  public get(file: ImageFile): Promise<Blob | null> {
+    if (PASSTHROUGH_EXTENSIONS.includes(file.extension)) {
+      return Promise.resolve(file.fileObject);
+    }
+
+    const key = ThumbnailCache.getKey(file);
+    let request = this.pending.get(key);
+    if (!request) {
+      request = this.load(key, file).finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+    return request;
+  }
+
+  private async load(key: string, file: ImageFile): Promise<Blob | null> {
+    const db = await this.getDatabase();
+
+    if (db) {
+      try {
+        const record = await promisifyRequest(db.transaction(STORE, 'readonly').objectStore(STORE).get(key)) as ThumbnailRecord | undefined;
+        if (record) {
+          if (Date.now() - record.lastUsed > TOUCH_INTERVAL) {
+            this.put(db, { ...record, lastUsed: Date.now() }).catch(() => { });
+          }
+          return record.blob;
+        }
+      } catch (error) {
+        console.warn('Thumbnail cache read failed', error);
+      }
+    }
+
+    let blob: Blob;
+    try {
+      blob = await this.getPool().run({ file: file.fileObject, size: THUMBNAIL_SIZE, width: file.width, height: file.height });
+    } catch {
+      return null; // Not decodable by the browser (e.g. TIFF)
+    }
+
+    if (db) {
+      try {
+        await this.put(db, { key, blob, bytes: blob.size, lastUsed: Date.now() });
+        this.eviction = this.eviction
+          .then(() => this.evict(db))
+          .catch(error => console.warn('Thumbnail cache eviction failed', error));
+      } catch (error) {
+        console.warn('Thumbnail cache write failed', error);
+      }
+    }
+    return blob;
+  }
+
+  private async put(db: IDBDatabase, record: ThumbnailRecord): Promise<void> {
+    const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+    const previous = await promisifyRequest(store.get(record.key)) as ThumbnailRecord | undefined;
+    await promisifyRequest(store.put(record));
+    if (this.totalBytes !== null) {
+      this.totalBytes += record.bytes - (previous?.bytes ?? 0);
+    }
+  }
+
+  /**
+   * Trims the cache to LOW_WATER, least recently used first, once it is over MAX_BYTES.
+   * The first pass of a session also drops entries that haven't been shown for MAX_AGE.
+   */
+  private async evict(db: IDBDatabase): Promise<void> {
+    const firstPass = this.totalBytes === null;
+    let total = this.totalBytes ?? await this.measure(db);
+    const trim = total > MAX_BYTES;
+    if (!firstPass && !trim) return;
+
+    const staleBefore = Date.now() - MAX_AGE;
+    const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+
+    await new Promise<void>((resolve, reject) => {
+      const request = store.index(LAST_USED_INDEX).openCursor();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+
+        // Entries come oldest first, so the first one worth keeping ends the pass
+        const record = cursor.value as ThumbnailRecord;
+        const stale = firstPass && record.lastUsed < staleBefore;
+        if (!stale && !(trim && total > LOW_WATER)) return resolve();
+
+        cursor.delete();
+        total -= record.bytes;
+        cursor.continue();
+      };
+    });
+
+    this.totalBytes = total;
+  }
+
+  private async measure(db: IDBDatabase): Promise<number> {
+    const records = await promisifyRequest(db.transaction(STORE, 'readonly').objectStore(STORE).getAll()) as ThumbnailRecord[];
+    return records.reduce((total, record) => total + record.bytes, 0);
+  }
+
+  /**
+   * The database, or null when IndexedDB is unavailable (thumbnails are then generated every time).
+   */
+  private getDatabase(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'key' });
+          store.createIndex(LAST_USED_INDEX, 'lastUsed');
+        }
+      }).catch(error => {
+        console.warn('Thumbnail cache unavailable', error);
+        return null;
+      });
+    }
+    return this.db;
+  }
+
+  private getPool(): WorkerPool<ThumbnailTask, Blob> {
+    if (!this.pool) {
+      this.pool = new WorkerPool<ThumbnailTask, Blob>(
+        () => new Worker(new URL('../workers/thumbnailWorker.ts', import.meta.url), { type: 'module' }),
+        Math.max(1, ImageResizer.getDefaultConcurrency() - 1) // Leave a core for renames running meanwhile
+      );
+    }
+    return this.pool;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * WorkerPool Service
+ * Runs tasks on a bounded number of Web Workers, queueing the rest.
+ *
+ * Workers receive `{ id, task }` and must answer `{ id, result }` or `{ id, error }`.
+ */
+
+interface QueuedTask<TTask, TResult> {
+  id: number;
+  task: TTask;
+  resolve: (result: TResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker<TTask, TResult> {
+  worker: Worker;
+  current: QueuedTask<TTask, TResult> | null;
+}
+
+export class WorkerPool<TTask, TResult> {
+  private workers: PoolWorker<TTask, TResult>[] = [];
+  private queue: QueuedTask<TTask, TResult>[] = [];
+  private nextId = 0;
+
+  constructor(private createWorker: () => Worker, private size: number) {}
+
+  /**
+   * Changes the number of workers. Busy workers above the new size finish their task first.
+   */
+  public setSize(size: number): void {
+    this.size = Math.max(1, size);
+    this.trim();
+    this.dispatch();
+  }
+
+  public run(task: TTask): Promise<TResult> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stops every worker and rejects the tasks that did not finish.
+   */
+  public terminate(): void {
+    const pending = [...this.queue, ...this.workers.flatMap(w => w.current ? [w.current] : [])];
+    this.workers.forEach(w => w.worker.terminate());
+    this.workers = [];
+    this.queue = [];
+    pending.forEach(task => task.reject(new Error('Worker pool was terminated')));
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let idle = this.workers.find(w => !w.current);
+      if (!idle) {
+        if (this.workers.length >= this.size) return;
+        idle = this.spawn();
+      }
+
+      const next = this.queue.shift()!;
+      idle.current = next;
+      idle.worker.postMessage({ id: next.id, task: next.task });
+    }
+  }
+
+  private spawn(): PoolWorker<TTask, TResult> {
+    const entry: PoolWorker<TTask, TResult> = { worker: this.createWorker(), current: null };
+
+    entry.worker.onmessage = (e: MessageEvent) => {
+      const task = entry.current;
+      if (!task || e.data.id !== task.id) return;
+
+      entry.current = null;
+      if (e.data.error !== undefined) {
+        task.reject(new Error(e.data.error));
+      } else {
+        task.resolve(e.data.result);
+      }
+      this.trim();
+      this.dispatch();
+    };
+
+    // A crashed worker is replaced; its task fails
+    entry.worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      const task = entry.current;
+      entry.worker.terminate();
+      this.workers = this.workers.filter(w => w !== entry);
+      task?.reject(new Error(e.message || 'Worker failed'));
+      this.dispatch();
+    };
+
+    this.workers.push(entry);
+    return entry;
+  }
+
+  // Drops idle workers above the configured size
+  private trim(): void {
+    while (this.workers.length > this.size) {
+      const idle = this.workers.find(w => !w.current);
+      if (!idle) return;
+      idle.worker.terminate();
+      this.workers = this.workers.filter(w => w !== idle);
+    }
+  }
+}
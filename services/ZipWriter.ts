@@ -0,0 +1,178 @@
+import { updateCrc32 } from '../utils/crc32';
+
+// Entries are stored uncompressed: images are compressed already, deflating them gains next to nothing
+const METHOD_STORED = 0;
+const FLAG_UTF8 = 0x0800;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+// Sizes and offsets from this value up only fit in a ZIP64 extra field
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+// Value written in the 32-bit field, MAX_32 tells readers to look in the ZIP64 field
+const fit32 = (value: number): number => value >= MAX_32 ? MAX_32 : value;
+const fit16 = (value: number): number => value >= MAX_16 ? MAX_16 : value;
+
+interface ZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number; // DOS time and date
+  date: number;
+}
+
+/**
+ * CRC-32 of a blob, read in chunks so large files never sit in memory at once.
+ */
+const crc32 = async (blob: Blob): Promise<number> => {
+  let crc = 0;
+  const reader = blob.stream().getReader();
+  for (; ;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    crc = updateCrc32(crc, value);
+  }
+  return crc;
+};
+
+// DOS timestamps have a two-second resolution and start in 1980
+const toDosDateTime = (timestamp: number): { time: number; date: number } => {
+  const d = new Date(Math.max(timestamp, new Date(1980, 0, 1).getTime()));
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+  };
+};
+
+/**
+ * ZipWriter Service
+ * Builds a ZIP archive entry by entry. The archive is a Blob made of the headers and the
+ * entries' own blobs, so file content is checksummed in chunks but never copied.
+ * Archives and entries past 4 GB use the ZIP64 extensions.
+ */
+export class ZipWriter {
+  private parts: BlobPart[] = [];
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private names = new Set<string>();
+
+  /**
+   * Appends a file. Paths use '/' between folders; a path can only be added once.
+   */
+  public async add(path: string, content: Blob, lastModified: number = Date.now()): Promise<void> {
+    if (this.names.has(path)) {
+      throw new Error(`"${path}" is already in the archive`);
+    }
+
+    const name = new TextEncoder().encode(path);
+    const crc = await crc32(content);
+    const size = content.size;
+    const zip64 = size >= MAX_32;
+    const { time, date } = toDosDateTime(lastModified);
+
+    // Local header; with ZIP64 both sizes move to the extra field
+    const extra = zip64 ? 20 : 0;
+    const header = new DataView(new ArrayBuffer(30 + name.length + extra));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+    header.setUint16(6, FLAG_UTF8, true);
+    header.setUint16(8, METHOD_STORED, true);
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, zip64 ? MAX_32 : size, true);
+    header.setUint32(22, zip64 ? MAX_32 : size, true);
+    header.setUint16(26, name.length, true);
+    header.setUint16(28, extra, true);
+    new Uint8Array(header.buffer).set(name, 30);
+    if (zip64) {
+      const at = 30 + name.length;
+      header.setUint16(at, 0x0001, true);
+      header.setUint16(at + 2, 16, true);
+      header.setBigUint64(at + 4, BigInt(size), true);
+      header.setBigUint64(at + 12, BigInt(size), true);
+    }
+
+    this.names.add(path);
+    this.entries.push({ name, crc, size, offset: this.offset, time, date });
+    this.parts.push(header.buffer, content);
+    this.offset += header.byteLength + size;
+  }
+
+  /**
+   * Writes the central directory and returns the finished archive.
+   */
+  public finish(): Blob {
+    const directoryOffset = this.offset;
+    let directorySize = 0;
+
+    for (const entry of this.entries) {
+      const record = this.getDirectoryRecord(entry);
+      this.parts.push(record);
+      directorySize += record.byteLength;
+    }
+
+    const zip64 = this.entries.length >= MAX_16 || directoryOffset >= MAX_32 || directorySize >= MAX_32;
+    if (zip64) {
+      const end64 = new DataView(new ArrayBuffer(56 + 20));
+      end64.setUint32(0, 0x06064b50, true);
+      end64.setBigUint64(4, 44n, true); // Size of the rest of the record
+      end64.setUint16(12, VERSION_ZIP64, true);
+      end64.setUint16(14, VERSION_ZIP64, true);
+      end64.setBigUint64(24, BigInt(this.entries.length), true);
+      end64.setBigUint64(32, BigInt(this.entries.length), true);
+      end64.setBigUint64(40, BigInt(directorySize), true);
+      end64.setBigUint64(48, BigInt(directoryOffset), true);
+      // Locator pointing at the record above
+      end64.setUint32(56, 0x07064b50, true);
+      end64.setBigUint64(64, BigInt(directoryOffset + directorySize), true);
+      end64.setUint32(72, 1, true);
+      this.parts.push(end64.buffer);
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, fit16(this.entries.length), true);
+    end.setUint16(10, fit16(this.entries.length), true);
+    end.setUint32(12, fit32(directorySize), true);
+    end.setUint32(16, fit32(directoryOffset), true);
+    this.parts.push(end.buffer);
+
+    return new Blob(this.parts, { type: 'application/zip' });
+  }
+
+  private getDirectoryRecord(entry: ZipEntry): ArrayBuffer {
+    // Only the values that overflow are written to the ZIP64 extra field, in this order
+    const overflow = [
+      ...(entry.size >= MAX_32 ? [entry.size, entry.size] : []),
+      ...(entry.offset >= MAX_32 ? [entry.offset] : [])
+    ];
+    const extra = overflow.length > 0 ? 4 + overflow.length * 8 : 0;
+    const version = extra ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+    const record = new DataView(new ArrayBuffer(46 + entry.name.length + extra));
+    record.setUint32(0, 0x02014b50, true);
+    record.setUint16(4, version, true);
+    record.setUint16(6, version, true);
+    record.setUint16(8, FLAG_UTF8, true);
+    record.setUint16(10, METHOD_STORED, true);
+    record.setUint16(12, entry.time, true);
+    record.setUint16(14, entry.date, true);
+    record.setUint32(16, entry.crc, true);
+    record.setUint32(20, fit32(entry.size), true);
+    record.setUint32(24, fit32(entry.size), true);
+    record.setUint16(28, entry.name.length, true);
+    record.setUint16(30, extra, true);
+    record.setUint32(42, fit32(entry.offset), true);
+    new Uint8Array(record.buffer).set(entry.name, 46);
+    if (extra) {
+      const at = 46 + entry.name.length;
+      record.setUint16(at, 0x0001, true);
+      record.setUint16(at + 2, overflow.length * 8, true);
+      overflow.forEach((value, i) => record.setBigUint64(at + 4 + i * 8, BigInt(value), true));
+    }
+    return record.buffer;
+  }
+}
@@ -5,42 +5,235 @@ export enum FileStatus {
   SKIPPED = 'SKIPPED',
 }
 
+// Camera metadata read from the EXIF block of JPEG/TIFF files
+export interface ImageMetadata {
+  captureDate?: number; // DateTimeOriginal, camera wall-clock time stored as UTC
+  make?: string;
+  model?: string;
+  lens?: string;
+  iso?: number;
+  focalLength?: number; // Millimetres
+  orientation?: number; // EXIF orientation 1-8; width and height of the file are already upright
+  hasGps?: boolean; // The EXIF block records where the picture was taken
+}
+
+// Rotation and mirror chosen for a file: flipped horizontally first, then rotated clockwise
+export interface ImageTransform {
+  rotate: 0 | 90 | 180 | 270;
+  flip: boolean;
+}
+
 export interface ImageFile {
   id: string;
   originalName: string;
   extension: string;
-  path: string; // Virtual path for web demo
+  path: string; // Relative path inside the picked folder (e.g. "events/party/IMG_01.jpg")
+  directory: string; // Relative folder of the file, '' for the picked folder itself
   size: number;
   lastModified: number;
-  previewUrl?: string;
   fileObject: File;
   handle?: FileSystemFileHandle; // Added for real file system access
+  parentHandle?: FileSystemDirectoryHandle; // Folder that contains the file (root or subfolder)
+  metadata?: ImageMetadata; // EXIF data, only for formats that carry it
+  width?: number; // Pixel size read from the file header, missing when it could not be read
+  height?: number;
 }
 
+// How {num} is counted when scanning subfolders
+export type NumberingScope = 'global' | 'folder';
+
+// Encoding of written files; 'keep' leaves the format of each file unchanged
+export type OutputFormat = 'keep' | 'jpeg' | 'png' | 'webp' | 'avif';
+
+// What happens to a metadata group of the source when an image is re-encoded.
+// 'update' keeps it with the size and orientation fields rewritten to match the written pixels.
+export type MetadataMode = 'keep' | 'update' | 'drop';
+
+// How enableResize computes the new size; no mode ever enlarges an image
+export type ResizeMode = 'width' | 'height' | 'longEdge' | 'fit' | 'percent' | 'crop';
+
+// Which part of the image the 'crop' mode keeps
+export type CropAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+// Case styles of the 'case' rename rule
+export type CaseStyle = 'upper' | 'lower' | 'title' | 'camel' | 'kebab' | 'snake';
+
+// One step of the rename rule chain, applied to the original name in order
+export type RenameRule = { id: string; enabled: boolean } & (
+  | { type: 'replace'; find: string; replace: string; ignoreCase: boolean } // Regex, $1… in replace
+  | { type: 'remove'; position: number; count: number; fromEnd: boolean } // Remove count characters
+  | { type: 'insert'; text: string; index: number; fromEnd: boolean }
+  | { type: 'trim' }
+  | { type: 'collapseWhitespace' }
+  | { type: 'case'; style: CaseStyle }
+);
+
+// Whether the rule chain feeds the template ({name}) or produces the new name itself
+export type RuleMode = 'before' | 'instead';
+
+// Order of the batch, which is the order {num} counts in; 'manual' follows the order dragged in the list
+export type SortKey = 'name' | 'modified' | 'captureDate' | 'size' | 'dimensions' | 'manual';
+
+export type SortDirection = 'asc' | 'desc';
+
+// Date checked by the date range filter; files without a capture date use their modified date
+export type DateFilterField = 'modified' | 'captureDate';
+
+// Platform whose file name rules generated names must follow; 'portable' satisfies all of them
+export type TargetPlatform = 'windows' | 'macos' | 'linux' | 'portable';
+
+// What to do when a target name is already taken (on disk or by another file of the batch)
+export type ConflictPolicy = 'skip' | 'suffix' | 'newer' | 'larger' | 'overwrite';
+
 export interface RenameConfig {
-  pattern: string;
+  pattern: string; // A '/' in the rendered name places the file in folders under the picked folder
   startNumber: number;
   recursive: boolean;
+  numberingScope: NumberingScope; // One sequence for the batch or one per folder
   dryRun: boolean;
-  overwrite: boolean;
+  sortKey: SortKey;
+  sortDirection: SortDirection; // Ignored by 'manual'
+  // Filters, files left out are shown as SKIPPED
+  includeGlobs: string[]; // When any is set, only files matching one of them are processed
+  excludeGlobs: string[];
+  excludedExtensions: string[]; // Lowercase with the dot (".png")
+  minSize: number; // Bytes, 0 for no limit
+  maxSize: number; // Bytes, 0 for no limit
+  dateFilterField: DateFilterField;
+  dateFrom: string; // YYYY-MM-DD, inclusive; '' for no limit
+  dateTo: string;
+  conflictPolicy: ConflictPolicy;
+  conflictSuffixFormat: string; // Used by the 'suffix' policy, {n} is the counter (e.g. "_{n}", " ({n})")
+  conflictSuffixStart: number; // First value of {n}
+  removeEmptyFolders: boolean; // Remove the folders that files moved out of once they are empty
   prefix: string;
   suffix: string;
+  rules: RenameRule[]; // Rename rule chain, disabled rules are kept but not applied
+  ruleMode: RuleMode;
+  targetPlatform: TargetPlatform;
+  autoSanitize: boolean; // Rewrite invalid names instead of flagging them as errors
+  transliterate: boolean; // With autoSanitize, also convert names to plain ASCII
   // Resize Configuration
   enableResize: boolean;
-  resizeWidth: number; // Target width in pixels
+  resizeMode: ResizeMode;
+  resizeWidth: number; // Target width in pixels ('width', 'fit', and the maximum width for 'crop')
+  resizeHeight: number; // Target height in pixels ('height', 'fit')
+  resizeLongEdge: number; // Maximum length of the longer side in pixels ('longEdge')
+  resizePercent: number; // Scale 1-100 ('percent')
+  cropAspectWidth: number; // Aspect ratio kept by 'crop', e.g. 16:9
+  cropAspectHeight: number;
+  cropAnchor: CropAnchor;
   resizeQuality: number; // JPEG quality 1-100
   keepOriginals: boolean; // Keep original files vs replace
+  outputFormat: OutputFormat; // Applied with or without resizing
+  // Metadata copied into re-encoded JPEG and PNG files
+  exifMode: MetadataMode; // Camera data, capture date, copyright
+  xmpMode: MetadataMode; // Editing and catalog data
+  iccMode: Exclude<MetadataMode, 'update'>; // Color profile
+  privacyMode: boolean; // Remove location, serial numbers, owner names and thumbnails from every written file
+  concurrency: number; // Images decoded and encoded in parallel by the worker pool
 }
 
 export interface ProcessedFile extends ImageFile {
   newName: string;
+  newExtension: string; // Differs from extension when the file is converted to another format
   status: FileStatus;
   errorMessage?: string;
+  resolution?: ConflictPolicy; // Policy that resolved a name conflict on this row
+  allowOverwrite?: boolean; // The row is expected to replace an existing file
+  overridden?: boolean; // newName was typed in by hand for this file
+  transform?: ImageTransform; // Rotation/flip applied when the file is written
+  targetDirectory?: string; // Folder the file moves to, relative to the picked folder; unset when it stays in its own
 }
 
+// One file operation recorded in the undo journal
+export interface JournalEntry {
+  originalName: string; // File name (with extension) before the batch
+  newName: string; // File name (with extension) written by the batch
+  directory: string; // Relative folder of the original name, '' for the picked folder
+  targetDirectory?: string; // Folder of the new name when the file moved to another one
+  resized: boolean;
+  keptOriginal: boolean; // Original left in place, the new file is an extra copy
+  backupPath?: string; // Copy of the original content inside the backup folder
+  replacedBackupPath?: string; // Copy of a file that existed under newName and was overwritten
+  size: number; // Size and lastModified of the written file, to detect later edits
+  lastModified: number;
+  revertedAt?: number; // Set once this file is restored, the rest of the batch may still be pending
+}
+
+// An executed rename batch, stored in IndexedDB
+export interface RenameBatch {
+  id: string;
+  createdAt: number;
+  rootName: string;
+  rootHandle: FileSystemDirectoryHandle; // Handles are structured-cloneable, used to match the folder
+  entries: JournalEntry[];
+  revertedAt?: number;
+}
+
+export interface RevertResult {
+  restored: number;
+  refused: { name: string; reason: string }[];
+}
+
+// An entry (file or folder) found on disk while scanning
+export interface ListingEntry {
+  name: string;
+  kind: 'file' | 'directory';
+  size: number;
+  lastModified: number;
+}
+
+// Every entry per relative folder, as found on disk
+export type DirectoryListing = Record<string, ListingEntry[]>;
+
 export interface ScanResult {
   files: ImageFile[];
   totalSize: number;
+  listing: DirectoryListing;
+}
+
+// Extra inputs for generatePreview besides the scanned files and config
+export interface PreviewContext {
+  listing?: DirectoryListing; // Enables conflict checks against files outside the batch
+  excluded?: Map<string, string>; // File id -> reason, rows left out of the batch (SKIPPED)
+  mapping?: NameMapping; // Imported names used instead of the pattern; unmapped files are skipped
+  overrides?: Map<string, string>; // File path -> name typed in by hand (without extension), used instead of any other name
+  deselected?: Set<string>; // File ids left out when executing the selected rows only; they keep their number
+  transforms?: Map<string, ImageTransform>; // File path -> rotation/flip chosen in the list
+}
+
+// Content fingerprints used to find duplicates
+export interface ImageHashes {
+  sha256: string; // Exact content hash
+  dHash: string | null; // 64-bit perceptual hash as hex, null when the image could not be decoded
+}
+
+// Files that show the same picture; the keeper is the one that stays in the batch
+export interface DuplicateGroup {
+  id: string;
+  kind: 'exact' | 'similar'; // Identical bytes, or only a perceptual match
+  keeper: ImageFile;
+  duplicates: ImageFile[];
+}
+
+// A row of an imported name mapping that could not be used as is
+export interface MappingIssue {
+  row: number; // 1-based line in the CSV file
+  kind: 'invalid' | 'unmatched' | 'ambiguous' | 'duplicate' | 'duplicateTarget';
+  oldName: string;
+  newName: string;
+}
+
+// Names read from an old_name,new_name CSV file, matched to the scanned files
+export interface NameMapping {
+  fileName: string; // Name of the imported CSV file
+  names: Map<string, string>; // File id -> new name (without extension)
+  rowCount: number;
+  issues: MappingIssue[];
 }
 
 // Stats for the visualization
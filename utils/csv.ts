@@ -0,0 +1,59 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing.
+ */
+
+const escapeField = (field: string): string =>
+  /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+export const toCsv = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(field => escapeField(String(field))).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Splits CSV text into rows of fields. Quoted fields may contain commas, quotes ("") and line breaks.
+ * The delimiter is ',' unless the first line only separates with ';' (spreadsheet exports in many locales).
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  const delimiter = !firstLine.includes(',') && firstLine.includes(';') ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
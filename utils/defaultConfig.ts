@@ -0,0 +1,52 @@
+import { RenameConfig } from '../types';
+import { ImageResizer } from '../services/ImageResizer';
+
+/**
+ * Settings used on first start, and to fill fields missing from older presets.
+ */
+export const DEFAULT_CONFIG: RenameConfig = {
+  pattern: 'image_{num:003}',
+  startNumber: 1,
+  recursive: false,
+  numberingScope: 'global',
+  dryRun: false,
+  sortKey: 'name',
+  sortDirection: 'asc',
+  includeGlobs: [],
+  excludeGlobs: [],
+  excludedExtensions: [],
+  minSize: 0,
+  maxSize: 0,
+  dateFilterField: 'modified',
+  dateFrom: '',
+  dateTo: '',
+  conflictPolicy: 'skip',
+  conflictSuffixFormat: '_{n}',
+  conflictSuffixStart: 1,
+  removeEmptyFolders: false,
+  prefix: '',
+  suffix: '',
+  rules: [],
+  ruleMode: 'before',
+  targetPlatform: 'portable',
+  autoSanitize: false,
+  transliterate: false,
+  // Resize defaults
+  enableResize: false,
+  resizeMode: 'width',
+  resizeWidth: 1920,
+  resizeHeight: 1080,
+  resizeLongEdge: 2048,
+  resizePercent: 50,
+  cropAspectWidth: 16,
+  cropAspectHeight: 9,
+  cropAnchor: 'center',
+  resizeQuality: 85,
+  keepOriginals: false,
+  outputFormat: 'keep',
+  exifMode: 'update',
+  xmpMode: 'update',
+  iccMode: 'keep',
+  privacyMode: false,
+  concurrency: ImageResizer.getDefaultConcurrency(),
+};
@@ -0,0 +1,12 @@
+/**
+ * Saves a blob through the browser's download prompt.
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoke after the click has been handled, some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,48 @@
+/**
+ * Helpers around the File System Access API handles.
+ */
+
+/**
+ * Returns the handle of an existing file, or null when there is no such file.
+ */
+export const getExistingFile = async (
+  dir: FileSystemDirectoryHandle,
+  name: string
+): Promise<FileSystemFileHandle | null> => {
+  try {
+    return await dir.getFileHandle(name);
+  } catch (error: any) {
+    if (error.name === 'NotFoundError' || error.name === 'TypeMismatchError') return null;
+    throw error;
+  }
+};
+
+/**
+ * Walks a relative folder path ("a/b") down from the root handle.
+ */
+export const resolveDirectory = async (
+  root: FileSystemDirectoryHandle,
+  path: string,
+  create: boolean = false
+): Promise<FileSystemDirectoryHandle> => {
+  let dir = root;
+  for (const segment of path.split('/').filter(Boolean)) {
+    dir = await dir.getDirectoryHandle(segment, { create });
+  }
+  return dir;
+};
+
+/**
+ * Creates (or truncates) a file and writes the given content into it.
+ */
+export const writeFile = async (
+  dir: FileSystemDirectoryHandle,
+  name: string,
+  content: Blob
+): Promise<FileSystemFileHandle> => {
+  const handle = await dir.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(content);
+  await writable.close();
+  return handle;
+};
@@ -0,0 +1,88 @@
+/**
+ * Glob patterns for file paths.
+ * `*` and `?` stay inside one folder, `**` spans folders, `[abc]` and `{jpg,png}` match alternatives.
+ * A pattern without a slash matches the file name in any folder, a pattern with one the relative path.
+ * Matching ignores case, like the file systems of Windows and macOS.
+ */
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const isValidClass = (body: string): boolean => {
+  try {
+    new RegExp(`[${body}]`);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const translate = (pattern: string): string => {
+  let source = '';
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" also matches no folder at all
+        const slash = pattern[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 3 : 2;
+      } else {
+        source += '[^/]*';
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '?') {
+      source += '[^/]';
+      i++;
+      continue;
+    }
+
+    if (char === '[') {
+      const end = pattern.indexOf(']', i + 2);
+      if (end !== -1) {
+        const negate = pattern[i + 1] === '!' || pattern[i + 1] === '^';
+        const body = pattern.slice(negate ? i + 2 : i + 1, end).replace(/[\\\]^]/g, '\\$&');
+        // A class the RegExp engine refuses, such as the reversed range [z-a], stays literal
+        if (isValidClass(body)) {
+          source += `[${negate ? '^/' : ''}${body}]`;
+          i = end + 1;
+          continue;
+        }
+      }
+    }
+
+    if (char === '{') {
+      const end = pattern.indexOf('}', i + 1);
+      if (end !== -1) {
+        source += `(?:${pattern.slice(i + 1, end).split(',').map(translate).join('|')})`;
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // Anything else, including an unclosed bracket or brace, is literal
+    source += escapeRegExp(char);
+    i++;
+  }
+
+  return source;
+};
+
+/**
+ * Never throws: a pattern that still fails to compile matches its own text literally.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  const trimmed = pattern.trim().replace(/^\.?\//, '');
+  const prefix = trimmed.includes('/') ? '' : '(?:.*/)?';
+  try {
+    return new RegExp(`^${prefix}${translate(trimmed)}$`, 'i');
+  } catch {
+    return new RegExp(`^${prefix}${escapeRegExp(trimmed)}$`, 'i');
+  }
+};
+
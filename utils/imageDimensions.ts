@@ -0,0 +1,89 @@
+/**
+ * Reads the pixel size of an image from the first bytes of the file, without decoding it.
+ * Supports JPEG, PNG, GIF, WebP and BMP; returns null for anything else or a truncated header.
+ */
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+// Enough for every supported format except JPEG, where the frame header follows the metadata segments
+export const DIMENSIONS_HEADER_SIZE = 64;
+
+const readAscii = (view: DataView, offset: number, length: number): string => {
+  let result = '';
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    result += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return result;
+};
+
+const readJpeg = (view: DataView): ImageDimensions | null => {
+  let offset = 2;
+
+  while (offset + 9 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+
+    const marker = view.getUint8(offset + 1);
+    // Padding bytes between segments
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) return null;
+
+    // SOF0-SOF15, except DHT (c4), JPG (c8) and DAC (cc)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+
+    offset += 2 + view.getUint16(offset + 2);
+  }
+
+  return null;
+};
+
+const readWebp = (view: DataView): ImageDimensions | null => {
+  if (view.byteLength < 30) return null;
+
+  switch (readAscii(view, 12, 4)) {
+    case 'VP8 ':
+      // Lossy: 14-bit sizes after the frame start code
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    case 'VP8L': {
+      // Lossless: 14-bit sizes minus one, packed after the signature byte
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X': {
+      // Extended: 24-bit canvas sizes minus one
+      const read24 = (offset: number) => view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16);
+      return { width: read24(24) + 1, height: read24(27) + 1 };
+    }
+    default:
+      return null;
+  }
+};
+
+export const readDimensions = (buffer: ArrayBuffer): ImageDimensions | null => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 10) return null;
+
+  let dimensions: ImageDimensions | null = null;
+
+  if (view.getUint16(0) === 0xffd8) {
+    dimensions = readJpeg(view);
+  } else if (readAscii(view, 1, 3) === 'PNG' && view.byteLength >= 24) {
+    dimensions = { width: view.getUint32(16), height: view.getUint32(20) };
+  } else if (readAscii(view, 0, 3) === 'GIF') {
+    dimensions = { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  } else if (readAscii(view, 0, 4) === 'RIFF' && readAscii(view, 8, 4) === 'WEBP') {
+    dimensions = readWebp(view);
+  } else if (readAscii(view, 0, 2) === 'BM' && view.byteLength >= 26) {
+    // Negative heights mark top-down bitmaps
+    dimensions = { width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) };
+  }
+
+  return dimensions && dimensions.width > 0 && dimensions.height > 0 ? dimensions : null;
+};
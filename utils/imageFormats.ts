@@ -0,0 +1,65 @@
+import { OutputFormat, RenameConfig } from '../types';
+
+export type EncodableFormat = Exclude<OutputFormat, 'keep'>;
+
+export const FORMAT_MIME_TYPES: Record<EncodableFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+export const FORMAT_LABELS: Record<EncodableFormat, string> = {
+  jpeg: 'JPEG',
+  png: 'PNG',
+  webp: 'WebP',
+  avif: 'AVIF',
+};
+
+const FORMAT_EXTENSIONS: Record<EncodableFormat, string> = {
+  jpeg: '.jpg',
+  png: '.png',
+  webp: '.webp',
+  avif: '.avif',
+};
+
+/**
+ * Format of a file extension, or null for formats canvas cannot encode (gif, bmp, tiff, svg).
+ */
+export const getFormatFromExtension = (extension: string): EncodableFormat | null => {
+  switch (extension.toLowerCase()) {
+    case '.jpg':
+    case '.jpeg':
+      return 'jpeg';
+    case '.png':
+      return 'png';
+    case '.webp':
+      return 'webp';
+    case '.avif':
+      return 'avif';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Format the file is written in.
+ * 'keep' keeps encodable formats; anything else that gets re-encoded by a resize or a rotation becomes JPEG.
+ * @param transformed - The file is rotated or flipped
+ */
+export const getOutputFormat = (extension: string, config: RenameConfig, transformed = false): EncodableFormat | null => {
+  if (config.outputFormat !== 'keep') return config.outputFormat;
+
+  const source = getFormatFromExtension(extension);
+  if (source || !(config.enableResize || transformed)) return source;
+  return 'jpeg';
+};
+
+/**
+ * Extension of the written file. The original spelling (.jpeg, .JPG) is kept when the format doesn't change.
+ */
+export const getOutputExtension = (extension: string, config: RenameConfig, transformed = false): string => {
+  const output = getOutputFormat(extension, config, transformed);
+  if (!output || output === getFormatFromExtension(extension)) return extension;
+  return FORMAT_EXTENSIONS[output];
+};
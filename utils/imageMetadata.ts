@@ -0,0 +1,637 @@
+import { RenameConfig } from '../types';
+import { crc32 } from './crc32';
+
+/**
+ * Copies metadata from a source image into its re-encoded version.
+ * Canvas encoders write bare pixels, so EXIF, XMP and the ICC profile are read from the
+ * JPEG segments or PNG chunks of the source and written back into the JPEG or PNG output.
+ * The privacy mode removes personal data from these blocks, in re-encoded and in untouched files.
+ */
+
+export type MetadataSettings = Pick<RenameConfig, 'exifMode' | 'xmpMode' | 'iccMode'>;
+
+// Metadata of an image, independent of the container it came from
+export interface MetadataBlocks {
+  exif?: Uint8Array; // TIFF structure, starting with the byte order mark
+  xmp?: string; // XMP packet
+  icc?: Uint8Array; // Uncompressed ICC profile
+}
+
+// Output types metadata can be written into
+export const METADATA_MIME_TYPES = ['image/jpeg', 'image/png'];
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const encoder = new TextEncoder();
+const EXIF_HEADER = encoder.encode('Exif\0\0');
+const XMP_HEADER = encoder.encode('http://ns.adobe.com/xap/1.0/\0');
+const ICC_HEADER = encoder.encode('ICC_PROFILE\0');
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+const ICC_NAME = 'ICC Profile';
+
+// A JPEG segment holds at most 65535 bytes, including its 2-byte length
+const MAX_SEGMENT = 0xffff - 2;
+// ICC profiles are split over APP2 segments, each with the header plus sequence number and count
+const ICC_CHUNK_SIZE = MAX_SEGMENT - ICC_HEADER.length - 2;
+
+// TIFF tags rewritten in the copied EXIF block
+const TAG_IMAGE_WIDTH = 0x0100;
+const TAG_IMAGE_LENGTH = 0x0101;
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_PIXEL_X_DIMENSION = 0xa002;
+const TAG_PIXEL_Y_DIMENSION = 0xa003;
+
+const startsWith = (bytes: Uint8Array, offset: number, prefix: Uint8Array | number[]): boolean => {
+  if (offset + prefix.length > bytes.length) return false;
+  for (let i = 0; i < prefix.length; i++) {
+    if (bytes[offset + i] !== prefix[i]) return false;
+  }
+  return true;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const ascii = (bytes: Uint8Array, start: number, end: number): string =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+// zlib streams, as used by PNG
+const inflate = async (bytes: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'))).arrayBuffer());
+
+const deflate = async (bytes: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+interface Segment {
+  marker: number;
+  start: number; // Offset of the 0xFF byte
+  dataStart: number; // Offset of the content after the length
+  end: number;
+}
+
+/**
+ * Marker segments of a JPEG up to the start of the compressed data.
+ * Returns the offset where scanning stopped (the SOS marker) along with them.
+ */
+const readSegments = (bytes: Uint8Array): { segments: Segment[]; scanStart: number } => {
+  const segments: Segment[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) break;
+    segments.push({ marker, start: offset, dataStart: offset + 4, end });
+    offset = end;
+  }
+
+  return { segments, scanStart: offset };
+};
+
+const isExifSegment = (bytes: Uint8Array, s: Segment) => s.marker === 0xe1 && startsWith(bytes, s.dataStart, EXIF_HEADER);
+const isXmpSegment = (bytes: Uint8Array, s: Segment) => s.marker === 0xe1 && startsWith(bytes, s.dataStart, XMP_HEADER);
+const isIccSegment = (bytes: Uint8Array, s: Segment) => s.marker === 0xe2 && startsWith(bytes, s.dataStart, ICC_HEADER);
+
+const readJpeg = (bytes: Uint8Array): MetadataBlocks => {
+  const blocks: MetadataBlocks = {};
+  const iccChunks: { sequence: number; data: Uint8Array }[] = [];
+
+  for (const segment of readSegments(bytes).segments) {
+    if (!blocks.exif && isExifSegment(bytes, segment)) {
+      blocks.exif = bytes.slice(segment.dataStart + EXIF_HEADER.length, segment.end);
+    } else if (blocks.xmp === undefined && isXmpSegment(bytes, segment)) {
+      blocks.xmp = new TextDecoder().decode(bytes.subarray(segment.dataStart + XMP_HEADER.length, segment.end));
+    } else if (isIccSegment(bytes, segment)) {
+      const at = segment.dataStart + ICC_HEADER.length;
+      iccChunks.push({ sequence: bytes[at], data: bytes.subarray(at + 2, segment.end) });
+    }
+  }
+
+  if (iccChunks.length > 0) {
+    blocks.icc = concat(iccChunks.sort((a, b) => a.sequence - b.sequence).map(chunk => chunk.data));
+  }
+  return blocks;
+};
+
+interface Chunk {
+  type: string;
+  start: number; // Offset of the length field
+  dataStart: number;
+  dataEnd: number;
+  end: number; // After the CRC
+}
+
+const readChunks = (bytes: Uint8Array): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= bytes.length) {
+    const dataEnd = offset + 8 + view.getUint32(offset);
+    if (dataEnd + 4 > bytes.length) break;
+    const type = ascii(bytes, offset + 4, offset + 8);
+    chunks.push({ type, start: offset, dataStart: offset + 8, dataEnd, end: dataEnd + 4 });
+    if (type === 'IEND') break;
+    offset = dataEnd + 4;
+  }
+  return chunks;
+};
+
+// Keyword of a tEXt-style chunk, up to its NUL separator
+const readKeyword = (bytes: Uint8Array, chunk: Chunk): { keyword: string; next: number } => {
+  const nul = bytes.indexOf(0, chunk.dataStart);
+  const end = nul === -1 || nul > chunk.dataEnd ? chunk.dataEnd : nul;
+  return { keyword: ascii(bytes, chunk.dataStart, end), next: end + 1 };
+};
+
+/**
+ * Text of an iTXt chunk holding XMP; undefined for other iTXt chunks.
+ */
+const readXmpChunk = async (bytes: Uint8Array, chunk: Chunk): Promise<string | undefined> => {
+  const { keyword, next } = readKeyword(bytes, chunk);
+  if (keyword !== XMP_KEYWORD) return undefined;
+
+  // Compression flag and method, then the NUL-terminated language and translated keyword
+  const compressed = bytes[next] === 1;
+  const language = bytes.indexOf(0, next + 2);
+  const translated = bytes.indexOf(0, language + 1);
+  if (language === -1 || translated === -1 || translated >= chunk.dataEnd) return undefined;
+  const text = bytes.subarray(translated + 1, chunk.dataEnd);
+  return new TextDecoder().decode(compressed ? await inflate(text) : text);
+};
+
+const readPng = async (bytes: Uint8Array): Promise<MetadataBlocks> => {
+  const blocks: MetadataBlocks = {};
+
+  for (const chunk of readChunks(bytes)) {
+    try {
+      if (chunk.type === 'eXIf' && !blocks.exif) {
+        blocks.exif = bytes.slice(chunk.dataStart, chunk.dataEnd);
+      } else if (chunk.type === 'iCCP' && !blocks.icc) {
+        // Profile name, compression method (0 = zlib), compressed profile
+        const { next } = readKeyword(bytes, chunk);
+        blocks.icc = await inflate(bytes.subarray(next + 1, chunk.dataEnd));
+      } else if (chunk.type === 'iTXt' && blocks.xmp === undefined) {
+        blocks.xmp = await readXmpChunk(bytes, chunk);
+      }
+    } catch (error) {
+      console.warn(`Ignoring unreadable ${chunk.type} chunk`, error);
+    }
+  }
+  return blocks;
+};
+
+/**
+ * Reads the EXIF, XMP and ICC blocks of a JPEG or PNG file; other formats give none.
+ */
+export const readMetadata = async (file: Blob): Promise<MetadataBlocks> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpeg(bytes);
+  if (startsWith(bytes, 0, PNG_SIGNATURE)) return readPng(bytes);
+  return {};
+};
+
+/**
+ * Rewrites a copy of an EXIF block for the written image. The orientation is always reset,
+ * the pixels are written upright. With a size, the dimension tags get it and the embedded
+ * thumbnail (IFD1), which still shows the original framing, is unlinked.
+ */
+const editExif = (tiff: Uint8Array, size: { width: number; height: number } | null): Uint8Array => {
+  const data = tiff.slice();
+  const view = new DataView(data.buffer);
+  if (data.length < 8) return data;
+
+  const byteOrder = view.getUint16(0);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return data;
+  const little = byteOrder === 0x4949;
+
+  // Only single inline SHORT or LONG values are rewritten
+  const setValue = (entry: number, value: number) => {
+    const type = view.getUint16(entry + 2, little);
+    if (view.getUint32(entry + 4, little) !== 1) return;
+    if (type === 3 && value <= 0xffff) view.setUint16(entry + 8, value, little);
+    if (type === 4) view.setUint32(entry + 8, value, little);
+  };
+
+  // Visits the entries of an IFD; returns the offset of its next-IFD pointer, or -1
+  const walk = (ifd: number, visit: (tag: number, entry: number) => void): number => {
+    if (ifd <= 0 || ifd + 2 > data.length) return -1;
+    const count = view.getUint16(ifd, little);
+    const next = ifd + 2 + count * 12;
+    if (next + 4 > data.length) return -1;
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      visit(view.getUint16(entry, little), entry);
+    }
+    return next;
+  };
+
+  let exifIfd = 0;
+  const next = walk(view.getUint32(4, little), (tag, entry) => {
+    if (tag === TAG_ORIENTATION) setValue(entry, 1);
+    if (tag === TAG_EXIF_IFD) exifIfd = view.getUint32(entry + 8, little);
+    if (!size) return;
+    if (tag === TAG_IMAGE_WIDTH) setValue(entry, size.width);
+    if (tag === TAG_IMAGE_LENGTH) setValue(entry, size.height);
+  });
+
+  if (size) {
+    if (next !== -1) view.setUint32(next, 0, little);
+    walk(exifIfd, (tag, entry) => {
+      if (tag === TAG_PIXEL_X_DIMENSION) setValue(entry, size.width);
+      if (tag === TAG_PIXEL_Y_DIMENSION) setValue(entry, size.height);
+    });
+  }
+  return data;
+};
+
+// Sets a property of the XMP packet, written either as an attribute or as an element
+const setXmpProperty = (xmp: string, name: string, value: number): string => xmp
+  .replace(new RegExp(`(\\b${name}=(["']))[^"']*\\2`, 'g'), `$1${value}$2`)
+  .replace(new RegExp(`(<${name}>)[^<]*(</${name}>)`, 'g'), `$1${value}$2`);
+
+const editXmp = (xmp: string, size: { width: number; height: number } | null): string => {
+  let result = setXmpProperty(xmp, 'tiff:Orientation', 1);
+  if (size) {
+    result = setXmpProperty(result, 'tiff:ImageWidth', size.width);
+    result = setXmpProperty(result, 'tiff:ImageLength', size.height);
+    result = setXmpProperty(result, 'exif:PixelXDimension', size.width);
+    result = setXmpProperty(result, 'exif:PixelYDimension', size.height);
+  }
+  return result;
+};
+
+/**
+ * The blocks to write into an image of the given size, following the keep/update/drop settings.
+ */
+export const applyMetadataSettings = (
+  blocks: MetadataBlocks,
+  settings: MetadataSettings,
+  width: number,
+  height: number
+): MetadataBlocks => {
+  const size = { width, height };
+  return {
+    exif: blocks.exif && settings.exifMode !== 'drop'
+      ? editExif(blocks.exif, settings.exifMode === 'update' ? size : null)
+      : undefined,
+    xmp: blocks.xmp !== undefined && settings.xmpMode !== 'drop'
+      ? editXmp(blocks.xmp, settings.xmpMode === 'update' ? size : null)
+      : undefined,
+    icc: settings.iccMode === 'keep' ? blocks.icc : undefined
+  };
+};
+
+const jpegSegment = (marker: number, ...parts: Uint8Array[]): Uint8Array => {
+  const content = concat(parts);
+  return concat([new Uint8Array([0xff, marker, (content.length + 2) >> 8, (content.length + 2) & 0xff]), content]);
+};
+
+const writeJpeg = (bytes: Uint8Array, blocks: MetadataBlocks): Uint8Array[] => {
+  const added: Uint8Array[] = [];
+  // An EXIF or XMP block larger than one segment can't be split and is left out
+  if (blocks.exif && EXIF_HEADER.length + blocks.exif.length <= MAX_SEGMENT) {
+    added.push(jpegSegment(0xe1, EXIF_HEADER, blocks.exif));
+  }
+  const xmp = blocks.xmp !== undefined ? encoder.encode(blocks.xmp) : null;
+  if (xmp && XMP_HEADER.length + xmp.length <= MAX_SEGMENT) {
+    added.push(jpegSegment(0xe1, XMP_HEADER, xmp));
+  }
+  if (blocks.icc) {
+    const count = Math.ceil(blocks.icc.length / ICC_CHUNK_SIZE);
+    for (let i = 0; i < count && count <= 255; i++) {
+      const chunk = blocks.icc.subarray(i * ICC_CHUNK_SIZE, (i + 1) * ICC_CHUNK_SIZE);
+      added.push(jpegSegment(0xe2, ICC_HEADER, new Uint8Array([i + 1, count]), chunk));
+    }
+  }
+
+  // New segments go after the JFIF header; blocks of the same kind written by the encoder are replaced
+  const { segments, scanStart } = readSegments(bytes);
+  const leading = segments.filter((segment, i) => segment.marker === 0xe0 && segments.slice(0, i).every(s => s.marker === 0xe0));
+  const rest = segments.filter(segment => !leading.includes(segment) && !(
+    (blocks.exif && isExifSegment(bytes, segment)) ||
+    (blocks.xmp !== undefined && isXmpSegment(bytes, segment)) ||
+    (blocks.icc && isIccSegment(bytes, segment))
+  ));
+
+  return [
+    bytes.subarray(0, 2),
+    ...leading.map(segment => bytes.subarray(segment.start, segment.end)),
+    ...added,
+    ...rest.map(segment => bytes.subarray(segment.start, segment.end)),
+    bytes.subarray(scanStart)
+  ];
+};
+
+const pngChunk = (type: string, ...parts: Uint8Array[]): Uint8Array => {
+  const body = concat([encoder.encode(type), ...parts]);
+  const chunk = new Uint8Array(body.length + 8);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, body.length - 4);
+  chunk.set(body, 4);
+  view.setUint32(body.length + 4, crc32(body));
+  return chunk;
+};
+
+const writePng = async (bytes: Uint8Array, blocks: MetadataBlocks): Promise<Uint8Array[]> => {
+  const added: Uint8Array[] = [];
+  if (blocks.icc) {
+    added.push(pngChunk('iCCP', encoder.encode(`${ICC_NAME}\0`), new Uint8Array([0]), await deflate(blocks.icc)));
+  }
+  if (blocks.exif) {
+    added.push(pngChunk('eXIf', blocks.exif));
+  }
+  if (blocks.xmp !== undefined) {
+    // Uncompressed, no language or translated keyword
+    added.push(pngChunk('iTXt', encoder.encode(`${XMP_KEYWORD}\0`), new Uint8Array([0, 0, 0, 0]), encoder.encode(blocks.xmp)));
+  }
+
+  // New chunks go right after IHDR, before any image data. A profile replaces an sRGB chunk.
+  const chunks = readChunks(bytes);
+  const replaced = (chunk: Chunk) =>
+    (blocks.icc && (chunk.type === 'iCCP' || chunk.type === 'sRGB')) ||
+    (blocks.exif && chunk.type === 'eXIf') ||
+    (blocks.xmp !== undefined && chunk.type === 'iTXt' && readKeyword(bytes, chunk).keyword === XMP_KEYWORD);
+
+  return [
+    bytes.subarray(0, PNG_SIGNATURE.length),
+    ...chunks.slice(0, 1).map(chunk => bytes.subarray(chunk.start, chunk.end)),
+    ...added,
+    ...chunks.slice(1).filter(chunk => !replaced(chunk)).map(chunk => bytes.subarray(chunk.start, chunk.end))
+  ];
+};
+
+/**
+ * Writes the blocks into an encoded JPEG or PNG image. Other types are returned unchanged.
+ */
+export const writeMetadata = async (encoded: Blob, blocks: MetadataBlocks): Promise<Blob> => {
+  if (!blocks.exif && blocks.xmp === undefined && !blocks.icc) return encoded;
+
+  const bytes = new Uint8Array(await encoded.arrayBuffer());
+  let parts: Uint8Array[];
+  if (encoded.type === 'image/jpeg' && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    parts = writeJpeg(bytes, blocks);
+  } else if (encoded.type === 'image/png' && startsWith(bytes, 0, PNG_SIGNATURE)) {
+    parts = await writePng(bytes, blocks);
+  } else {
+    return encoded;
+  }
+  return new Blob(parts, { type: encoded.type });
+};
+
+// TIFF tags removed by the privacy mode: the GPS IFD and the tags naming the camera's owner or
+// its serial numbers. Maker notes are removed too, most cameras store the serial number there.
+const TAG_GPS_IFD = 0x8825;
+const TAG_THUMBNAIL_OFFSET = 0x0201;
+const TAG_THUMBNAIL_LENGTH = 0x0202;
+const TAG_STRIP_OFFSETS = 0x0111;
+const TAG_STRIP_BYTE_COUNTS = 0x0117;
+const PRIVATE_TAGS = new Set([
+  TAG_GPS_IFD,
+  0x927c, // MakerNote
+  0xa430, // CameraOwnerName
+  0xa431, // BodySerialNumber
+  0xa435, // LensSerialNumber
+  0xc62f, // CameraSerialNumber
+]);
+
+// Byte size of each TIFF field type, indexed by type id
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+// XMP properties with the same information, plus the embedded thumbnails
+const PRIVATE_XMP = '(?:exif:GPS\\w*|exifEX:(?:BodySerialNumber|LensSerialNumber|CameraOwnerName)|aux:(?:SerialNumber|LensSerialNumber|OwnerName)|xmp:Thumbnails)';
+
+// Legacy PNG text chunks (written by ImageMagick) carrying a whole EXIF or XMP block as hex
+const RAW_PROFILE_KEYWORD = /^Raw profile type (exif|app1|xmp)$/i;
+
+/**
+ * Removes the private tags, the GPS IFD and the thumbnail (IFD1) from a copy of an EXIF block.
+ * Removed entries are taken out of their IFD and the bytes they pointed to are zeroed,
+ * so every other offset in the block stays valid.
+ */
+const stripExif = (tiff: Uint8Array): Uint8Array => {
+  const data = tiff.slice();
+  const view = new DataView(data.buffer);
+  if (data.length < 8) return data;
+
+  const byteOrder = view.getUint16(0);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return data;
+  const little = byteOrder === 0x4949;
+
+  const blank = (start: number, length: number) => {
+    if (start >= 8 && length > 0 && start + length <= data.length) data.fill(0, start, start + length);
+  };
+
+  const readIfd = (ifd: number): { entries: number[]; next: number } | null => {
+    if (ifd < 8 || ifd + 2 > data.length) return null;
+    const count = view.getUint16(ifd, little);
+    if (ifd + 2 + count * 12 + 4 > data.length) return null;
+    const entries = Array.from({ length: count }, (_, i) => ifd + 2 + i * 12);
+    return { entries, next: view.getUint32(ifd + 2 + count * 12, little) };
+  };
+
+  const readInteger = (entry: number): number => view.getUint16(entry + 2, little) === 3
+    ? view.getUint16(entry + 8, little)
+    : view.getUint32(entry + 8, little);
+
+  // Values up to 4 bytes sit in the entry itself, larger ones behind an offset
+  const blankValue = (entry: number) => {
+    const size = (TYPE_SIZES[view.getUint16(entry + 2, little)] ?? 1) * view.getUint32(entry + 4, little);
+    if (size > 4) blank(view.getUint32(entry + 8, little), size);
+  };
+
+  const blankIfd = (ifd: number) => {
+    const info = readIfd(ifd);
+    if (!info) return;
+    info.entries.forEach(blankValue);
+    blank(ifd, 2 + info.entries.length * 12 + 4);
+  };
+
+  // Takes the matching entries out of an IFD and moves the rest (and the next-IFD pointer) up
+  const removeEntries = (ifd: number, remove: (tag: number, entry: number) => boolean) => {
+    const info = readIfd(ifd);
+    if (!info) return;
+    const kept = info.entries
+      .filter(entry => {
+        if (!remove(view.getUint16(entry, little), entry)) return true;
+        blankValue(entry);
+        return false;
+      })
+      .map(entry => data.slice(entry, entry + 12));
+    if (kept.length === info.entries.length) return;
+
+    view.setUint16(ifd, kept.length, little);
+    kept.forEach((entry, i) => data.set(entry, ifd + 2 + i * 12));
+    view.setUint32(ifd + 2 + kept.length * 12, info.next, little);
+    blank(ifd + 2 + kept.length * 12 + 4, (info.entries.length - kept.length) * 12);
+  };
+
+  const ifd0 = view.getUint32(4, little);
+  let exifIfd = 0;
+  removeEntries(ifd0, (tag, entry) => {
+    if (tag === TAG_EXIF_IFD) exifIfd = view.getUint32(entry + 8, little);
+    if (tag === TAG_GPS_IFD) blankIfd(view.getUint32(entry + 8, little));
+    return PRIVATE_TAGS.has(tag);
+  });
+  removeEntries(exifIfd, tag => PRIVATE_TAGS.has(tag));
+
+  // The thumbnail image goes with its IFD
+  const info = readIfd(ifd0);
+  const thumbnail = info ? readIfd(info.next) : null;
+  if (info && thumbnail) {
+    const valueOf = (tag: number) => {
+      const entry = thumbnail.entries.find(e => view.getUint16(e, little) === tag && view.getUint32(e + 4, little) === 1);
+      return entry === undefined ? 0 : readInteger(entry);
+    };
+    blank(valueOf(TAG_THUMBNAIL_OFFSET), valueOf(TAG_THUMBNAIL_LENGTH));
+    blank(valueOf(TAG_STRIP_OFFSETS), valueOf(TAG_STRIP_BYTE_COUNTS));
+    blankIfd(info.next);
+    view.setUint32(ifd0 + 2 + info.entries.length * 12, 0, little);
+  }
+  return data;
+};
+
+// Removes the private properties, written either as attributes or as elements
+const stripXmp = (xmp: string): string => xmp
+  .replace(new RegExp(`\\s${PRIVATE_XMP}=(["'])[^"']*\\1`, 'g'), '')
+  .replace(new RegExp(`<(${PRIVATE_XMP})\\b[^>]*/>`, 'g'), '')
+  .replace(new RegExp(`<(${PRIVATE_XMP})\\b[^>]*>[\\s\\S]*?</\\1>`, 'g'), '');
+
+/**
+ * The blocks without location, serial numbers, owner names and thumbnails.
+ */
+export const stripPrivateBlocks = (blocks: MetadataBlocks): MetadataBlocks => ({
+  exif: blocks.exif && stripExif(blocks.exif),
+  xmp: blocks.xmp !== undefined ? stripXmp(blocks.xmp) : undefined,
+  icc: blocks.icc
+});
+
+const stripJpeg = (bytes: Uint8Array): Uint8Array[] => {
+  const { segments, scanStart } = readSegments(bytes);
+  return [
+    bytes.subarray(0, 2),
+    ...segments.map(segment => {
+      if (isExifSegment(bytes, segment)) {
+        return jpegSegment(0xe1, EXIF_HEADER, stripExif(bytes.subarray(segment.dataStart + EXIF_HEADER.length, segment.end)));
+      }
+      if (isXmpSegment(bytes, segment)) {
+        const xmp = new TextDecoder().decode(bytes.subarray(segment.dataStart + XMP_HEADER.length, segment.end));
+        const stripped = stripXmp(xmp);
+        if (stripped !== xmp) return jpegSegment(0xe1, XMP_HEADER, encoder.encode(stripped));
+      }
+      return bytes.subarray(segment.start, segment.end);
+    }),
+    bytes.subarray(scanStart)
+  ];
+};
+
+const stripPng = async (bytes: Uint8Array): Promise<Uint8Array[]> => {
+  const parts = [bytes.subarray(0, PNG_SIGNATURE.length)];
+
+  for (const chunk of readChunks(bytes)) {
+    const original = bytes.subarray(chunk.start, chunk.end);
+    if (chunk.type === 'eXIf') {
+      parts.push(pngChunk('eXIf', stripExif(bytes.subarray(chunk.dataStart, chunk.dataEnd))));
+    } else if (['tEXt', 'zTXt', 'iTXt'].includes(chunk.type) && RAW_PROFILE_KEYWORD.test(readKeyword(bytes, chunk).keyword)) {
+      continue;
+    } else if (chunk.type === 'iTXt') {
+      let xmp: string | undefined;
+      try {
+        xmp = await readXmpChunk(bytes, chunk);
+      } catch (error) {
+        console.warn('Ignoring unreadable iTXt chunk', error);
+      }
+      const stripped = xmp !== undefined ? stripXmp(xmp) : undefined;
+      parts.push(stripped === undefined || stripped === xmp
+        ? original
+        : pngChunk('iTXt', encoder.encode(`${XMP_KEYWORD}\0`), new Uint8Array([0, 0, 0, 0]), encoder.encode(stripped)));
+    } else {
+      parts.push(original);
+    }
+  }
+  return parts;
+};
+
+const webpChunk = (type: string, data: Uint8Array): Uint8Array => {
+  // Chunks are padded to an even size
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(encoder.encode(type));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+const stripWebp = (bytes: Uint8Array): Uint8Array[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, offset + 4);
+    const size = view.getUint32(offset + 4, true);
+    const dataEnd = offset + 8 + size;
+    const end = Math.min(dataEnd + size % 2, bytes.length);
+    if (dataEnd > bytes.length) {
+      chunks.push(bytes.subarray(offset));
+      break;
+    }
+
+    const data = bytes.subarray(offset + 8, dataEnd);
+    if (type === 'EXIF') {
+      // Some writers keep the JPEG "Exif\0\0" prefix
+      const prefix = startsWith(data, 0, EXIF_HEADER) ? EXIF_HEADER.length : 0;
+      chunks.push(webpChunk('EXIF', concat([data.subarray(0, prefix), stripExif(data.subarray(prefix))])));
+    } else if (type === 'XMP ') {
+      const xmp = new TextDecoder().decode(data);
+      const stripped = stripXmp(xmp);
+      chunks.push(stripped === xmp ? bytes.subarray(offset, end) : webpChunk('XMP ', encoder.encode(stripped)));
+    } else {
+      chunks.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const header = bytes.slice(0, 12);
+  new DataView(header.buffer).setUint32(4, 4 + chunks.reduce((sum, chunk) => sum + chunk.length, 0), true);
+  return [header, ...chunks];
+};
+
+const isWebp = (bytes: Uint8Array): boolean =>
+  bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP';
+
+/**
+ * Removes GPS positions, serial numbers, owner names and thumbnails from a JPEG, PNG or
+ * WebP file by rewriting its metadata; the image data is copied as is.
+ * Resolves to null when the file holds none of them, or is of another type.
+ */
+export const stripPrivateMetadata = async (file: Blob): Promise<Blob | null> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let parts: Uint8Array[];
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    parts = stripJpeg(bytes);
+  } else if (startsWith(bytes, 0, PNG_SIGNATURE)) {
+    parts = await stripPng(bytes);
+  } else if (isWebp(bytes)) {
+    parts = stripWebp(bytes);
+  } else {
+    return null;
+  }
+
+  const stripped = concat(parts);
+  const unchanged = stripped.length === bytes.length && stripped.every((byte, i) => byte === bytes[i]);
+  return unchanged ? null : new Blob([stripped], { type: file.type });
+};
@@ -0,0 +1,77 @@
+import { ImageTransform } from '../types';
+
+/**
+ * Rotations and flips of a picture, as EXIF orientations and as edits chosen in the list.
+ * A transform flips horizontally first, then rotates clockwise.
+ */
+
+export const IDENTITY: ImageTransform = { rotate: 0, flip: false };
+
+const normalize = (degrees: number): ImageTransform['rotate'] =>
+  (((degrees % 360) + 360) % 360) as ImageTransform['rotate'];
+
+export const isIdentity = (transform: ImageTransform): boolean =>
+  transform.rotate === 0 && !transform.flip;
+
+/**
+ * Whether width and height trade places.
+ */
+export const swapsAxes = (transform: ImageTransform): boolean =>
+  transform.rotate === 90 || transform.rotate === 270;
+
+/**
+ * Transform that turns the stored pixels upright for an EXIF orientation (1-8).
+ * Unknown values leave the picture as stored.
+ */
+export const fromExifOrientation = (orientation: number | undefined): ImageTransform => {
+  switch (orientation) {
+    case 2: return { rotate: 0, flip: true };
+    case 3: return { rotate: 180, flip: false };
+    case 4: return { rotate: 180, flip: true };
+    case 5: return { rotate: 270, flip: true };
+    case 6: return { rotate: 90, flip: false };
+    case 7: return { rotate: 90, flip: true };
+    case 8: return { rotate: 270, flip: false };
+    default: return IDENTITY;
+  }
+};
+
+/**
+ * Single transform doing `first`, then `then`.
+ * A flip after a rotation equals the flip first and the rotation the other way round.
+ */
+export const composeTransforms = (first: ImageTransform, then: ImageTransform): ImageTransform => then.flip
+  ? { rotate: normalize(then.rotate - first.rotate), flip: !first.flip }
+  : { rotate: normalize(first.rotate + then.rotate), flip: first.flip };
+
+/**
+ * Adds a clockwise rotation; negative degrees turn counter-clockwise.
+ */
+export const rotateTransform = (transform: ImageTransform, degrees: number): ImageTransform =>
+  composeTransforms(transform, { rotate: normalize(degrees), flip: false });
+
+/**
+ * Adds a mirror image; a vertical flip is a horizontal one turned half way round.
+ */
+export const flipTransform = (transform: ImageTransform, axis: 'horizontal' | 'vertical'): ImageTransform =>
+  composeTransforms(transform, { rotate: axis === 'vertical' ? 180 : 0, flip: true });
+
+/**
+ * CSS transform showing a picture as the transform writes it (CSS applies the functions right to left).
+ */
+export const toCssTransform = (transform: ImageTransform): string | undefined =>
+  isIdentity(transform) ? undefined : `rotate(${transform.rotate}deg)${transform.flip ? ' scaleX(-1)' : ''}`;
+
+// Edits offered in the list, for one row or for the batch
+export type TransformAction = 'rotateLeft' | 'rotateRight' | 'rotate180' | 'flipHorizontal' | 'flipVertical' | 'reset';
+
+export const applyTransformAction = (transform: ImageTransform, action: TransformAction): ImageTransform => {
+  switch (action) {
+    case 'rotateLeft': return rotateTransform(transform, -90);
+    case 'rotateRight': return rotateTransform(transform, 90);
+    case 'rotate180': return rotateTransform(transform, 180);
+    case 'flipHorizontal': return flipTransform(transform, 'horizontal');
+    case 'flipVertical': return flipTransform(transform, 'vertical');
+    case 'reset': return IDENTITY;
+  }
+};
@@ -0,0 +1,103 @@
+import { CropAnchor, RenameConfig } from '../types';
+
+export type ResizeSettings = Pick<
+  RenameConfig,
+  'resizeMode' | 'resizeWidth' | 'resizeHeight' | 'resizeLongEdge' | 'resizePercent' | 'cropAspectWidth' | 'cropAspectHeight' | 'cropAnchor'
+>;
+
+// Region of the source image that is drawn, and the size it is drawn at
+export interface ResizeGeometry {
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  width: number;
+  height: number;
+}
+
+// Position of the kept region along one axis: 0 = start, 0.5 = centre, 1 = end
+const ANCHOR_OFFSETS: Record<CropAnchor, [number, number]> = {
+  'top-left': [0, 0],
+  'top': [0.5, 0],
+  'top-right': [1, 0],
+  'left': [0, 0.5],
+  'center': [0.5, 0.5],
+  'right': [1, 0.5],
+  'bottom-left': [0, 1],
+  'bottom': [0.5, 1],
+  'bottom-right': [1, 1],
+};
+
+// Only the resize fields of the config, as sent to the image worker
+export const getResizeSettings = (config: ResizeSettings): ResizeSettings => ({
+  resizeMode: config.resizeMode,
+  resizeWidth: config.resizeWidth,
+  resizeHeight: config.resizeHeight,
+  resizeLongEdge: config.resizeLongEdge,
+  resizePercent: config.resizePercent,
+  cropAspectWidth: config.cropAspectWidth,
+  cropAspectHeight: config.cropAspectHeight,
+  cropAnchor: config.cropAnchor,
+});
+
+export const CROP_ANCHORS = Object.keys(ANCHOR_OFFSETS) as CropAnchor[];
+
+/**
+ * Computes how an image of the given size is resized (and cropped) by the settings.
+ * Images are never upscaled: a scale above 1 is clamped to 1.
+ * Returns null when the image would be written unchanged.
+ */
+export const computeResizeGeometry = (
+  width: number,
+  height: number,
+  settings: ResizeSettings
+): ResizeGeometry | null => {
+  let sx = 0;
+  let sy = 0;
+  let sw = width;
+  let sh = height;
+  let scale: number;
+
+  switch (settings.resizeMode) {
+    case 'width':
+      scale = settings.resizeWidth / width;
+      break;
+    case 'height':
+      scale = settings.resizeHeight / height;
+      break;
+    case 'longEdge':
+      scale = settings.resizeLongEdge / Math.max(width, height);
+      break;
+    case 'fit':
+      scale = Math.min(settings.resizeWidth / width, settings.resizeHeight / height);
+      break;
+    case 'percent':
+      scale = settings.resizePercent / 100;
+      break;
+    case 'crop': {
+      // Largest region with the target aspect ratio, placed by the anchor
+      const aspect = settings.cropAspectWidth / settings.cropAspectHeight;
+      if (width / height > aspect) {
+        sw = Math.max(1, Math.round(height * aspect));
+      } else {
+        sh = Math.max(1, Math.round(width / aspect));
+      }
+      const [ax, ay] = ANCHOR_OFFSETS[settings.cropAnchor];
+      sx = Math.round((width - sw) * ax);
+      sy = Math.round((height - sh) * ay);
+      // resizeWidth caps the width of the cropped region
+      scale = settings.resizeWidth / sw;
+      break;
+    }
+  }
+
+  scale = Math.min(1, scale);
+  const targetWidth = Math.max(1, Math.round(sw * scale));
+  const targetHeight = Math.max(1, Math.round(sh * scale));
+
+  if (sw === width && sh === height && targetWidth === width && targetHeight === height) {
+    return null;
+  }
+
+  return { sx, sy, sw, sh, width: targetWidth, height: targetHeight };
+};
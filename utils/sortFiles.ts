@@ -0,0 +1,55 @@
+import { ImageFile, SortDirection, SortKey } from '../types';
+
+// Numbers inside names compare by value (IMG_2 before IMG_10); case and accents are ignored
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Natural order by folder, then by name.
+ */
+export const compareNames = (a: ImageFile, b: ImageFile): number =>
+  collator.compare(a.directory, b.directory)
+  || collator.compare(a.originalName, b.originalName)
+  || collator.compare(a.extension, b.extension);
+
+// Value compared by each key; undefined when the file doesn't have one
+const SORT_VALUES: Record<Exclude<SortKey, 'name' | 'manual'>, (file: ImageFile) => number | undefined> = {
+  modified: file => file.lastModified,
+  // Files without EXIF fall back to their modified date, like the {date} token
+  captureDate: file => file.metadata?.captureDate ?? file.lastModified,
+  size: file => file.size,
+  dimensions: file => file.width && file.height ? file.width * file.height : undefined,
+};
+
+/**
+ * Returns the files in batch order. Ties follow the name order, and files without a value
+ * for the key come last in either direction.
+ * @param manualOrder - Paths in the order arranged by hand, used by 'manual'; files not in it follow by name
+ */
+export const sortFiles = (
+  files: ImageFile[],
+  key: SortKey,
+  direction: SortDirection,
+  manualOrder: string[] = []
+): ImageFile[] => {
+  const sign = direction === 'desc' ? -1 : 1;
+
+  if (key === 'name') {
+    return [...files].sort((a, b) => sign * compareNames(a, b));
+  }
+
+  if (key === 'manual') {
+    const positions = new Map(manualOrder.map((path, index) => [path, index]));
+    const position = (file: ImageFile) => positions.get(file.path) ?? manualOrder.length;
+    return [...files].sort((a, b) => position(a) - position(b) || compareNames(a, b));
+  }
+
+  const value = SORT_VALUES[key];
+  return [...files].sort((a, b) => {
+    const valueA = value(a);
+    const valueB = value(b);
+    if (valueA === undefined || valueB === undefined) {
+      return Number(valueA === undefined) - Number(valueB === undefined) || compareNames(a, b);
+    }
+    return sign * (valueA - valueB) || compareNames(a, b);
+  });
+};
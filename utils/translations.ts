@@ -7,12 +7,39 @@ export const translations = {
     readyItems: 'items ready',
     openFolder: 'Open Folder',
     configTitle: 'Configuration',
+    presetLabel: 'Preset',
+    presetChoose: 'Choose a preset…',
+    presetNone: 'No presets saved',
+    presetSave: 'Save current settings as preset',
+    presetDelete: 'Delete preset',
+    presetExport: 'Export presets',
+    presetImport: 'Import presets',
+    presetNamePrompt: 'Preset name',
+    presetOverwriteConfirm: 'Replace the preset "{name}"?',
+    presetDeleteConfirm: 'Delete the preset "{name}"?',
+    presetImportFailed: 'The presets file could not be imported:',
     patternLabel: 'Naming Pattern',
+    patternModifiersHint: 'Modifiers: {name:upper}, {name:lower}, {name:slice(0,8)}, {num:000}, {date:YYYYMMDD}. Use {{ and }} for literal braces.',
     startNumLabel: 'Start Number',
     prefixLabel: 'Prefix',
     suffixLabel: 'Suffix',
     dryRunLabel: 'Dry Run Mode',
-    overwriteLabel: 'Overwrite Existing',
+    conflictPolicyLabel: 'When a Name Is Taken',
+    policySkip: 'Skip',
+    policySuffix: 'Add suffix',
+    policyNewer: 'Keep newer',
+    policyLarger: 'Keep larger',
+    policyOverwrite: 'Overwrite',
+    suffixFormatLabel: 'Suffix ({n} = counter)',
+    suffixStartLabel: 'First {n}',
+    targetPlatformLabel: 'Valid File Names For',
+    platformPortable: 'All platforms',
+    autoSanitizeLabel: 'Fix invalid names automatically',
+    transliterateLabel: 'Convert to plain ASCII (é → e, Ж → Zh)',
+    recursiveLabel: 'Include Subfolders',
+    numberingScopeLabel: 'Numbering',
+    numberingGlobal: 'One sequence for all folders',
+    numberingFolder: 'Restart in each folder',
     storageTitle: 'Storage Overview',
     filesFound: 'Files Found',
     totalSize: 'Total Size',
@@ -25,7 +52,7 @@ export const translations = {
 
     // File List
     noFilesTitle: 'No images selected',
-    noFilesSub: 'Select a directory to begin',
+    noFilesSub: 'Select a directory or drop one here to begin',
     headerIndex: '#',
     headerPreview: 'Preview',
     headerOriginal: 'Original Name',
@@ -36,24 +63,198 @@ export const translations = {
     seqTooltip: 'Sequence Number',
     origTooltip: 'Original Filename',
     dateTooltip: 'Creation Date',
+    exifDateTooltip: 'Capture Date (EXIF)',
+    exifTimeTooltip: 'Capture Time (EXIF)',
+    cameraTooltip: 'Camera Model',
+    lensTooltip: 'Lens Model',
+    isoTooltip: 'ISO Speed',
+    focalTooltip: 'Focal Length',
 
     // Resize
     resizeLabel: 'Resize Images',
     resizeSizeLabel: 'Image Width',
+    resizeModeLabel: 'Resize Mode',
+    resizeModeWidth: 'Fit width',
+    resizeModeHeight: 'Fit height',
+    resizeModeLongEdge: 'Max long edge',
+    resizeModeFit: 'Fit inside W×H',
+    resizeModePercent: 'Scale by percentage',
+    resizeModeCrop: 'Crop to aspect ratio',
+    resizeHeightLabel: 'Image Height',
+    resizeLongEdgeLabel: 'Long Edge',
+    resizePercentLabel: 'Scale',
+    resizeMaxWidthLabel: 'Max Width',
+    cropAspectLabel: 'Aspect Ratio',
+    cropAnchorLabel: 'Keep Area',
+    noUpscaleHint: 'Images smaller than the target are never enlarged.',
     resizeQualityLabel: 'Quality',
-    keepOriginalsLabel: 'Keep Original Files'
+    keepOriginalsLabel: 'Keep Original Files',
+    concurrencyLabel: 'Parallel Workers',
+    outputFormatLabel: 'Output Format',
+    formatKeep: 'Keep original format',
+    formatUnsupported: 'This browser cannot encode {format} images',
+
+    // History
+    historyTitle: 'History',
+    undoLastBatch: 'Undo Last Batch',
+    revertBatch: 'Revert this batch',
+    revertedLabel: 'reverted',
+    historyOtherFolder: 'Open the same folder to revert this batch',
+    revertConfirm: 'Restore the original names of this batch?',
+    revertPartial: 'Some files were left untouched:',
+
+    // Duplicates
+    duplicatesTitle: 'Duplicates',
+    duplicatesFind: 'Find Duplicates',
+    duplicatesRescan: 'Analyze Again',
+    similarityLabel: 'Similarity Tolerance',
+    similarityExact: 'Identical',
+    similarityLoose: 'Loose',
+    excludeDuplicates: 'Exclude duplicates from the batch',
+    moveDuplicates: 'Move {count} to duplicates/',
+    moveDuplicatesConfirm: 'Move every duplicate (not the kept files) into the "duplicates" folder? This cannot be undone from the history.',
+    moveDuplicatesPartial: 'Some files could not be moved:',
+    noDuplicates: 'No duplicates found.',
+    duplicateExact: 'Identical files',
+    duplicateSimilar: 'Similar images',
+    duplicateKeeper: 'kept',
+
+    // Name mapping
+    mappingLabel: 'Name Mapping',
+    mappingImport: 'Import old_name,new_name CSV',
+    mappingClear: 'Stop using the mapping',
+    mappingSummary: '{matched} files matched from {rows} rows',
+    mappingRow: 'Row',
+    mappingInvalid: 'missing old or new name',
+    mappingUnmatched: 'no such file',
+    mappingAmbiguous: 'matches several files, use the relative path',
+    mappingDuplicate: 'file already mapped by an earlier row',
+    mappingDuplicateTarget: 'new name used twice',
+    mappingOverridesPattern: 'Names come from the imported mapping.',
+    exportPlan: 'Export the rename plan',
+
+    // Rename rules
+    rulesLabel: 'Rename Rules',
+    ruleModeBefore: 'Before the pattern',
+    ruleModeInstead: 'Instead of the pattern',
+    ruleAdd: '+ Add rule…',
+    ruleReplace: 'Find & replace (regex)',
+    ruleRemove: 'Remove characters',
+    ruleInsert: 'Insert text',
+    ruleTrim: 'Trim spaces',
+    ruleCollapseWhitespace: 'Collapse whitespace',
+    ruleCase: 'Change case',
+    ruleFind: 'Regular expression, e.g. IMG_(\\d+)',
+    ruleReplaceWith: 'Replace with, e.g. photo-$1',
+    ruleIgnoreCase: 'Ignore case',
+    ruleCharsAt: 'chars at position',
+    ruleText: 'Text',
+    ruleAtIndex: 'At index',
+    ruleFromEnd: 'from end',
+    ruleEnabled: 'Enabled',
+    ruleMoveUp: 'Move up',
+    ruleMoveDown: 'Move down',
+    ruleDelete: 'Delete rule',
+    sortLabel: 'Order',
+    sortName: 'Name (natural)',
+    sortModified: 'Date modified',
+    sortCaptureDate: 'Capture date',
+    sortSize: 'File size',
+    sortDimensions: 'Dimensions',
+    sortManual: 'Manual',
+    sortAscending: 'Ascending',
+    sortDescending: 'Descending',
+    sortManualHint: 'Drag rows in the list to change the order. Numbers follow the order shown.',
+    dragToReorder: 'Drag to reorder',
+    filterTitle: 'Filters',
+    filterInclude: 'Include (one pattern per line)',
+    filterExclude: 'Exclude (one pattern per line)',
+    filterGlobHint: '* and ? match within a folder, ** across folders. Patterns without / match the file name in any folder.',
+    filterExtensions: 'File types',
+    filterMinSize: 'Min size (KB)',
+    filterMaxSize: 'Max size (KB)',
+    filterNoLimit: 'No limit',
+    filterDateLabel: 'Date range',
+    filterDateFrom: 'From (inclusive)',
+    filterDateTo: 'To (inclusive)',
+    filterSummary: '{count} files filtered out',
+    filterClear: 'Clear filters',
+    statsToggleHint: 'Click a file type to include or exclude it',
+    selectAll: 'Select all',
+    selectedOnly: 'Selected only ({count})',
+    overrideHint: 'Click to type a name for this file',
+    overrideBadge: 'Edited',
+    overrideReset: 'Use the generated name',
+    scanProgress: 'Scanning… {found} images found ({read} entries read)',
+    scanCancel: 'Cancel',
+    dropHint: 'Drop a folder or images to open them',
+    downloadZip: 'Download ZIP',
+    uploadModeHint: 'This folder was opened as an uploaded copy, so it stays unchanged. The renamed and resized files are downloaded as a ZIP archive.',
+    metadataTitle: 'Metadata',
+    metadataExif: 'EXIF (camera, date, copyright)',
+    metadataXmp: 'XMP',
+    metadataIcc: 'Color profile (ICC)',
+    metadataKeep: 'Keep',
+    metadataUpdate: 'Update size',
+    metadataDrop: 'Drop',
+    metadataHint: 'Copied into JPEG and PNG files. The orientation is always reset, the pixels are written upright.',
+    rotateLeft: 'Rotate left',
+    rotateRight: 'Rotate right',
+    rotate180: 'Rotate 180°',
+    flipHorizontal: 'Flip horizontally',
+    flipVertical: 'Flip vertically',
+    transformBadge: 'Rotated or flipped when the file is written',
+    transformReset: 'Undo rotation and flip',
+    transformBatchHint: 'Rotate or flip the selected images, or all of them when none is selected',
+    privacyMode: 'Privacy mode',
+    privacyModeHint: 'Removes GPS location, serial numbers, owner names and thumbnails from JPEG, PNG and WebP files, without re-encoding them.',
+    gpsBadge: 'GPS',
+    gpsBadgeHint: 'This file records where the picture was taken',
+    patternFoldersHint: 'A / creates folders from the picked folder, e.g. {exif:date:YYYY}/{exif:date:MM}/{name}.',
+    removeEmptyFoldersLabel: 'Remove emptied folders',
+    removeEmptyFoldersHint: 'Deletes the folders that files moved out of once nothing is left in them',
+    rootFolder: 'Picked folder',
+    folderFileCount: '{count} files',
+    partlyRevertedLabel: 'partly reverted'
   },
   pt: {
     appTitle: 'Renomear',
     readyItems: 'itens prontos',
     openFolder: 'Abrir Pasta',
     configTitle: 'Configuração',
+    presetLabel: 'Predefinição',
+    presetChoose: 'Escolha uma predefinição…',
+    presetNone: 'Nenhuma predefinição salva',
+    presetSave: 'Salvar configurações atuais como predefinição',
+    presetDelete: 'Excluir predefinição',
+    presetExport: 'Exportar predefinições',
+    presetImport: 'Importar predefinições',
+    presetNamePrompt: 'Nome da predefinição',
+    presetOverwriteConfirm: 'Substituir a predefinição "{name}"?',
+    presetDeleteConfirm: 'Excluir a predefinição "{name}"?',
+    presetImportFailed: 'O arquivo de predefinições não pôde ser importado:',
     patternLabel: 'Padrão de Nome',
+    patternModifiersHint: 'Modificadores: {name:upper}, {name:lower}, {name:slice(0,8)}, {num:000}, {date:YYYYMMDD}. Use {{ e }} para chaves literais.',
     startNumLabel: 'Número Inicial',
     prefixLabel: 'Prefixo',
     suffixLabel: 'Sufixo',
     dryRunLabel: 'Modo Simulação',
-    overwriteLabel: 'Sobrescrever Existentes',
+    conflictPolicyLabel: 'Quando o Nome Já Existe',
+    policySkip: 'Ignorar',
+    policySuffix: 'Adicionar sufixo',
+    policyNewer: 'Manter o mais recente',
+    policyLarger: 'Manter o maior',
+    policyOverwrite: 'Sobrescrever',
+    suffixFormatLabel: 'Sufixo ({n} = contador)',
+    suffixStartLabel: 'Primeiro {n}',
+    targetPlatformLabel: 'Nomes Válidos Para',
+    platformPortable: 'Todas as plataformas',
+    autoSanitizeLabel: 'Corrigir nomes inválidos automaticamente',
+    transliterateLabel: 'Converter para ASCII simples (é → e, Ж → Zh)',
+    recursiveLabel: 'Incluir Subpastas',
+    numberingScopeLabel: 'Numeração',
+    numberingGlobal: 'Uma sequência para todas as pastas',
+    numberingFolder: 'Reiniciar em cada pasta',
     storageTitle: 'Visão Geral',
     filesFound: 'Arquivos',
     totalSize: 'Tamanho Total',
@@ -65,7 +266,7 @@ export const translations = {
     files: 'arquivos',
 
     noFilesTitle: 'Nenhuma imagem selecionada',
-    noFilesSub: 'Selecione um diretório para começar',
+    noFilesSub: 'Selecione um diretório ou solte um aqui para começar',
     headerIndex: '#',
     headerPreview: 'Visualização',
     headerOriginal: 'Nome Original',
@@ -75,24 +276,198 @@ export const translations = {
     seqTooltip: 'Número Sequencial',
     origTooltip: 'Nome do Arquivo Original',
     dateTooltip: 'Data de Criação',
+    exifDateTooltip: 'Data da Captura (EXIF)',
+    exifTimeTooltip: 'Hora da Captura (EXIF)',
+    cameraTooltip: 'Modelo da Câmera',
+    lensTooltip: 'Modelo da Lente',
+    isoTooltip: 'Sensibilidade ISO',
+    focalTooltip: 'Distância Focal',
 
     // Resize
     resizeLabel: 'Redimensionar Imagens',
     resizeSizeLabel: 'Largura da Imagem',
+    resizeModeLabel: 'Modo de Redimensionamento',
+    resizeModeWidth: 'Ajustar largura',
+    resizeModeHeight: 'Ajustar altura',
+    resizeModeLongEdge: 'Lado maior máximo',
+    resizeModeFit: 'Caber em L×A',
+    resizeModePercent: 'Escalar por porcentagem',
+    resizeModeCrop: 'Recortar na proporção',
+    resizeHeightLabel: 'Altura da Imagem',
+    resizeLongEdgeLabel: 'Lado Maior',
+    resizePercentLabel: 'Escala',
+    resizeMaxWidthLabel: 'Largura Máxima',
+    cropAspectLabel: 'Proporção',
+    cropAnchorLabel: 'Área Mantida',
+    noUpscaleHint: 'Imagens menores que o alvo nunca são ampliadas.',
     resizeQualityLabel: 'Qualidade',
-    keepOriginalsLabel: 'Manter Arquivos Originais'
+    keepOriginalsLabel: 'Manter Arquivos Originais',
+    concurrencyLabel: 'Processos Paralelos',
+    outputFormatLabel: 'Formato de Saída',
+    formatKeep: 'Manter formato original',
+    formatUnsupported: 'Este navegador não consegue gerar imagens {format}',
+
+    // History
+    historyTitle: 'Histórico',
+    undoLastBatch: 'Desfazer Último Lote',
+    revertBatch: 'Reverter este lote',
+    revertedLabel: 'revertido',
+    historyOtherFolder: 'Abra a mesma pasta para reverter este lote',
+    revertConfirm: 'Restaurar os nomes originais deste lote?',
+    revertPartial: 'Alguns arquivos não foram alterados:',
+
+    // Duplicates
+    duplicatesTitle: 'Duplicatas',
+    duplicatesFind: 'Encontrar Duplicatas',
+    duplicatesRescan: 'Analisar Novamente',
+    similarityLabel: 'Tolerância de Semelhança',
+    similarityExact: 'Idênticas',
+    similarityLoose: 'Ampla',
+    excludeDuplicates: 'Excluir duplicatas do lote',
+    moveDuplicates: 'Mover {count} para duplicates/',
+    moveDuplicatesConfirm: 'Mover todas as duplicatas (não os arquivos mantidos) para a pasta "duplicates"? Isso não pode ser desfeito pelo histórico.',
+    moveDuplicatesPartial: 'Alguns arquivos não puderam ser movidos:',
+    noDuplicates: 'Nenhuma duplicata encontrada.',
+    duplicateExact: 'Arquivos idênticos',
+    duplicateSimilar: 'Imagens semelhantes',
+    duplicateKeeper: 'mantido',
+
+    // Name mapping
+    mappingLabel: 'Mapeamento de Nomes',
+    mappingImport: 'Importar CSV old_name,new_name',
+    mappingClear: 'Parar de usar o mapeamento',
+    mappingSummary: '{matched} arquivos encontrados em {rows} linhas',
+    mappingRow: 'Linha',
+    mappingInvalid: 'nome antigo ou novo ausente',
+    mappingUnmatched: 'arquivo não encontrado',
+    mappingAmbiguous: 'corresponde a vários arquivos, use o caminho relativo',
+    mappingDuplicate: 'arquivo já mapeado por uma linha anterior',
+    mappingDuplicateTarget: 'novo nome usado duas vezes',
+    mappingOverridesPattern: 'Os nomes vêm do mapeamento importado.',
+    exportPlan: 'Exportar o plano de renomeação',
+
+    // Rename rules
+    rulesLabel: 'Regras de Renomeação',
+    ruleModeBefore: 'Antes do padrão',
+    ruleModeInstead: 'Em vez do padrão',
+    ruleAdd: '+ Adicionar regra…',
+    ruleReplace: 'Localizar e substituir (regex)',
+    ruleRemove: 'Remover caracteres',
+    ruleInsert: 'Inserir texto',
+    ruleTrim: 'Remover espaços nas pontas',
+    ruleCollapseWhitespace: 'Reduzir espaços',
+    ruleCase: 'Alterar maiúsculas',
+    ruleFind: 'Expressão regular, ex. IMG_(\\d+)',
+    ruleReplaceWith: 'Substituir por, ex. foto-$1',
+    ruleIgnoreCase: 'Ignorar maiúsculas',
+    ruleCharsAt: 'caracteres na posição',
+    ruleText: 'Texto',
+    ruleAtIndex: 'No índice',
+    ruleFromEnd: 'a partir do fim',
+    ruleEnabled: 'Ativada',
+    ruleMoveUp: 'Mover para cima',
+    ruleMoveDown: 'Mover para baixo',
+    ruleDelete: 'Excluir regra',
+    sortLabel: 'Ordem',
+    sortName: 'Nome (natural)',
+    sortModified: 'Data de modificação',
+    sortCaptureDate: 'Data de captura',
+    sortSize: 'Tamanho do arquivo',
+    sortDimensions: 'Dimensões',
+    sortManual: 'Manual',
+    sortAscending: 'Crescente',
+    sortDescending: 'Decrescente',
+    sortManualHint: 'Arraste as linhas da lista para mudar a ordem. Os números seguem a ordem exibida.',
+    dragToReorder: 'Arraste para reordenar',
+    filterTitle: 'Filtros',
+    filterInclude: 'Incluir (um padrão por linha)',
+    filterExclude: 'Excluir (um padrão por linha)',
+    filterGlobHint: '* e ? valem dentro de uma pasta, ** entre pastas. Padrões sem / comparam o nome do arquivo em qualquer pasta.',
+    filterExtensions: 'Tipos de arquivo',
+    filterMinSize: 'Tamanho mín. (KB)',
+    filterMaxSize: 'Tamanho máx. (KB)',
+    filterNoLimit: 'Sem limite',
+    filterDateLabel: 'Intervalo de datas',
+    filterDateFrom: 'De (inclusive)',
+    filterDateTo: 'Até (inclusive)',
+    filterSummary: '{count} arquivos filtrados',
+    filterClear: 'Limpar filtros',
+    statsToggleHint: 'Clique em um tipo de arquivo para incluí-lo ou excluí-lo',
+    selectAll: 'Selecionar tudo',
+    selectedOnly: 'Somente selecionados ({count})',
+    overrideHint: 'Clique para digitar um nome para este arquivo',
+    overrideBadge: 'Editado',
+    overrideReset: 'Usar o nome gerado',
+    scanProgress: 'Verificando… {found} imagens encontradas ({read} itens lidos)',
+    scanCancel: 'Cancelar',
+    dropHint: 'Solte uma pasta ou imagens para abri-las',
+    downloadZip: 'Baixar ZIP',
+    uploadModeHint: 'Esta pasta foi aberta como uma cópia enviada e permanece inalterada. Os arquivos renomeados e redimensionados são baixados em um arquivo ZIP.',
+    metadataTitle: 'Metadados',
+    metadataExif: 'EXIF (câmera, data, direitos)',
+    metadataXmp: 'XMP',
+    metadataIcc: 'Perfil de cor (ICC)',
+    metadataKeep: 'Manter',
+    metadataUpdate: 'Atualizar tamanho',
+    metadataDrop: 'Remover',
+    metadataHint: 'Copiados para arquivos JPEG e PNG. A orientação é sempre redefinida, os pixels são gravados na posição correta.',
+    rotateLeft: 'Girar para a esquerda',
+    rotateRight: 'Girar para a direita',
+    rotate180: 'Girar 180°',
+    flipHorizontal: 'Espelhar horizontalmente',
+    flipVertical: 'Espelhar verticalmente',
+    transformBadge: 'Girada ou espelhada ao gravar o arquivo',
+    transformReset: 'Desfazer rotação e espelhamento',
+    transformBatchHint: 'Girar ou espelhar as imagens selecionadas, ou todas quando nenhuma está selecionada',
+    privacyMode: 'Modo privacidade',
+    privacyModeHint: 'Remove localização GPS, números de série, nomes do proprietário e miniaturas de arquivos JPEG, PNG e WebP, sem recodificá-los.',
+    gpsBadge: 'GPS',
+    gpsBadgeHint: 'Este arquivo registra onde a foto foi tirada',
+    patternFoldersHint: 'Uma / cria pastas a partir da pasta escolhida, ex.: {exif:date:YYYY}/{exif:date:MM}/{name}.',
+    removeEmptyFoldersLabel: 'Remover pastas esvaziadas',
+    removeEmptyFoldersHint: 'Exclui as pastas de onde os arquivos saíram quando não resta nada nelas',
+    rootFolder: 'Pasta escolhida',
+    folderFileCount: '{count} arquivos',
+    partlyRevertedLabel: 'parcialmente revertido'
   },
   es: {
     appTitle: 'Renombrar',
     readyItems: 'elementos listos',
     openFolder: 'Abrir Carpeta',
     configTitle: 'Configuración',
+    presetLabel: 'Preajuste',
+    presetChoose: 'Elija un preajuste…',
+    presetNone: 'No hay preajustes guardados',
+    presetSave: 'Guardar la configuración actual como preajuste',
+    presetDelete: 'Eliminar preajuste',
+    presetExport: 'Exportar preajustes',
+    presetImport: 'Importar preajustes',
+    presetNamePrompt: 'Nombre del preajuste',
+    presetOverwriteConfirm: '¿Reemplazar el preajuste "{name}"?',
+    presetDeleteConfirm: '¿Eliminar el preajuste "{name}"?',
+    presetImportFailed: 'No se pudo importar el archivo de preajustes:',
     patternLabel: 'Patrón de Nombre',
+    patternModifiersHint: 'Modificadores: {name:upper}, {name:lower}, {name:slice(0,8)}, {num:000}, {date:YYYYMMDD}. Usa {{ y }} para llaves literales.',
     startNumLabel: 'Número Inicial',
     prefixLabel: 'Prefijo',
     suffixLabel: 'Sufijo',
     dryRunLabel: 'Modo Simulación',
-    overwriteLabel: 'Sobrescribir Existentes',
+    conflictPolicyLabel: 'Si el Nombre Ya Existe',
+    policySkip: 'Omitir',
+    policySuffix: 'Añadir sufijo',
+    policyNewer: 'Conservar el más reciente',
+    policyLarger: 'Conservar el más grande',
+    policyOverwrite: 'Sobrescribir',
+    suffixFormatLabel: 'Sufijo ({n} = contador)',
+    suffixStartLabel: 'Primer {n}',
+    targetPlatformLabel: 'Nombres Válidos Para',
+    platformPortable: 'Todas las plataformas',
+    autoSanitizeLabel: 'Corregir nombres no válidos automáticamente',
+    transliterateLabel: 'Convertir a ASCII simple (é → e, Ж → Zh)',
+    recursiveLabel: 'Incluir Subcarpetas',
+    numberingScopeLabel: 'Numeración',
+    numberingGlobal: 'Una secuencia para todas las carpetas',
+    numberingFolder: 'Reiniciar en cada carpeta',
     storageTitle: 'Almacenamiento',
     filesFound: 'Archivos',
     totalSize: 'Tamaño Total',
@@ -104,7 +479,7 @@ export const translations = {
     files: 'archivos',
 
     noFilesTitle: 'Sin imágenes seleccionadas',
-    noFilesSub: 'Selecciona un directorio para comenzar',
+    noFilesSub: 'Selecciona un directorio o suéltalo aquí para comenzar',
     headerIndex: '#',
     headerPreview: 'Vista',
     headerOriginal: 'Nombre Original',
@@ -114,24 +489,198 @@ export const translations = {
     seqTooltip: 'Número Secuencial',
     origTooltip: 'Nombre Original',
     dateTooltip: 'Fecha de Creación',
+    exifDateTooltip: 'Fecha de Captura (EXIF)',
+    exifTimeTooltip: 'Hora de Captura (EXIF)',
+    cameraTooltip: 'Modelo de Cámara',
+    lensTooltip: 'Modelo de Objetivo',
+    isoTooltip: 'Sensibilidad ISO',
+    focalTooltip: 'Distancia Focal',
 
     // Resize
     resizeLabel: 'Redimensionar Imágenes',
     resizeSizeLabel: 'Ancho de Imagen',
+    resizeModeLabel: 'Modo de Redimensionado',
+    resizeModeWidth: 'Ajustar ancho',
+    resizeModeHeight: 'Ajustar alto',
+    resizeModeLongEdge: 'Lado mayor máximo',
+    resizeModeFit: 'Encajar en An×Al',
+    resizeModePercent: 'Escalar por porcentaje',
+    resizeModeCrop: 'Recortar a proporción',
+    resizeHeightLabel: 'Alto de Imagen',
+    resizeLongEdgeLabel: 'Lado Mayor',
+    resizePercentLabel: 'Escala',
+    resizeMaxWidthLabel: 'Ancho Máximo',
+    cropAspectLabel: 'Proporción',
+    cropAnchorLabel: 'Área Conservada',
+    noUpscaleHint: 'Las imágenes más pequeñas que el objetivo nunca se amplían.',
     resizeQualityLabel: 'Calidad',
-    keepOriginalsLabel: 'Mantener Archivos Originales'
+    keepOriginalsLabel: 'Mantener Archivos Originales',
+    concurrencyLabel: 'Procesos Paralelos',
+    outputFormatLabel: 'Formato de Salida',
+    formatKeep: 'Mantener formato original',
+    formatUnsupported: 'Este navegador no puede generar imágenes {format}',
+
+    // History
+    historyTitle: 'Historial',
+    undoLastBatch: 'Deshacer Último Lote',
+    revertBatch: 'Revertir este lote',
+    revertedLabel: 'revertido',
+    historyOtherFolder: 'Abre la misma carpeta para revertir este lote',
+    revertConfirm: '¿Restaurar los nombres originales de este lote?',
+    revertPartial: 'Algunos archivos no se modificaron:',
+
+    // Duplicates
+    duplicatesTitle: 'Duplicados',
+    duplicatesFind: 'Buscar Duplicados',
+    duplicatesRescan: 'Analizar de Nuevo',
+    similarityLabel: 'Tolerancia de Similitud',
+    similarityExact: 'Idénticas',
+    similarityLoose: 'Amplia',
+    excludeDuplicates: 'Excluir duplicados del lote',
+    moveDuplicates: 'Mover {count} a duplicates/',
+    moveDuplicatesConfirm: '¿Mover todos los duplicados (no los archivos conservados) a la carpeta "duplicates"? Esto no se puede deshacer desde el historial.',
+    moveDuplicatesPartial: 'Algunos archivos no se pudieron mover:',
+    noDuplicates: 'No se encontraron duplicados.',
+    duplicateExact: 'Archivos idénticos',
+    duplicateSimilar: 'Imágenes similares',
+    duplicateKeeper: 'conservado',
+
+    // Name mapping
+    mappingLabel: 'Mapeo de Nombres',
+    mappingImport: 'Importar CSV old_name,new_name',
+    mappingClear: 'Dejar de usar el mapeo',
+    mappingSummary: '{matched} archivos encontrados en {rows} filas',
+    mappingRow: 'Fila',
+    mappingInvalid: 'falta el nombre antiguo o nuevo',
+    mappingUnmatched: 'archivo no encontrado',
+    mappingAmbiguous: 'coincide con varios archivos, use la ruta relativa',
+    mappingDuplicate: 'archivo ya asignado por una fila anterior',
+    mappingDuplicateTarget: 'nuevo nombre usado dos veces',
+    mappingOverridesPattern: 'Los nombres vienen del mapeo importado.',
+    exportPlan: 'Exportar el plan de renombrado',
+
+    // Rename rules
+    rulesLabel: 'Reglas de Renombrado',
+    ruleModeBefore: 'Antes del patrón',
+    ruleModeInstead: 'En lugar del patrón',
+    ruleAdd: '+ Añadir regla…',
+    ruleReplace: 'Buscar y reemplazar (regex)',
+    ruleRemove: 'Eliminar caracteres',
+    ruleInsert: 'Insertar texto',
+    ruleTrim: 'Quitar espacios en los extremos',
+    ruleCollapseWhitespace: 'Reducir espacios',
+    ruleCase: 'Cambiar mayúsculas',
+    ruleFind: 'Expresión regular, p. ej. IMG_(\\d+)',
+    ruleReplaceWith: 'Reemplazar por, p. ej. foto-$1',
+    ruleIgnoreCase: 'Ignorar mayúsculas',
+    ruleCharsAt: 'caracteres en la posición',
+    ruleText: 'Texto',
+    ruleAtIndex: 'En el índice',
+    ruleFromEnd: 'desde el final',
+    ruleEnabled: 'Activada',
+    ruleMoveUp: 'Subir',
+    ruleMoveDown: 'Bajar',
+    ruleDelete: 'Eliminar regla',
+    sortLabel: 'Orden',
+    sortName: 'Nombre (natural)',
+    sortModified: 'Fecha de modificación',
+    sortCaptureDate: 'Fecha de captura',
+    sortSize: 'Tamaño del archivo',
+    sortDimensions: 'Dimensiones',
+    sortManual: 'Manual',
+    sortAscending: 'Ascendente',
+    sortDescending: 'Descendente',
+    sortManualHint: 'Arrastra las filas de la lista para cambiar el orden. Los números siguen el orden mostrado.',
+    dragToReorder: 'Arrastra para reordenar',
+    filterTitle: 'Filtros',
+    filterInclude: 'Incluir (un patrón por línea)',
+    filterExclude: 'Excluir (un patrón por línea)',
+    filterGlobHint: '* y ? coinciden dentro de una carpeta, ** entre carpetas. Los patrones sin / comparan el nombre del archivo en cualquier carpeta.',
+    filterExtensions: 'Tipos de archivo',
+    filterMinSize: 'Tamaño mín. (KB)',
+    filterMaxSize: 'Tamaño máx. (KB)',
+    filterNoLimit: 'Sin límite',
+    filterDateLabel: 'Rango de fechas',
+    filterDateFrom: 'Desde (inclusive)',
+    filterDateTo: 'Hasta (inclusive)',
+    filterSummary: '{count} archivos filtrados',
+    filterClear: 'Quitar filtros',
+    statsToggleHint: 'Haz clic en un tipo de archivo para incluirlo o excluirlo',
+    selectAll: 'Seleccionar todo',
+    selectedOnly: 'Solo seleccionados ({count})',
+    overrideHint: 'Haz clic para escribir un nombre para este archivo',
+    overrideBadge: 'Editado',
+    overrideReset: 'Usar el nombre generado',
+    scanProgress: 'Escaneando… {found} imágenes encontradas ({read} entradas leídas)',
+    scanCancel: 'Cancelar',
+    dropHint: 'Suelta una carpeta o imágenes para abrirlas',
+    downloadZip: 'Descargar ZIP',
+    uploadModeHint: 'Esta carpeta se abrió como una copia subida y no se modifica. Los archivos renombrados y redimensionados se descargan en un archivo ZIP.',
+    metadataTitle: 'Metadatos',
+    metadataExif: 'EXIF (cámara, fecha, copyright)',
+    metadataXmp: 'XMP',
+    metadataIcc: 'Perfil de color (ICC)',
+    metadataKeep: 'Conservar',
+    metadataUpdate: 'Actualizar tamaño',
+    metadataDrop: 'Eliminar',
+    metadataHint: 'Se copian en archivos JPEG y PNG. La orientación siempre se restablece, los píxeles se escriben derechos.',
+    rotateLeft: 'Girar a la izquierda',
+    rotateRight: 'Girar a la derecha',
+    rotate180: 'Girar 180°',
+    flipHorizontal: 'Voltear horizontalmente',
+    flipVertical: 'Voltear verticalmente',
+    transformBadge: 'Se gira o voltea al escribir el archivo',
+    transformReset: 'Deshacer giro y volteo',
+    transformBatchHint: 'Girar o voltear las imágenes seleccionadas, o todas si no hay ninguna seleccionada',
+    privacyMode: 'Modo privacidad',
+    privacyModeHint: 'Elimina la ubicación GPS, los números de serie, los nombres del propietario y las miniaturas de los archivos JPEG, PNG y WebP, sin recodificarlos.',
+    gpsBadge: 'GPS',
+    gpsBadgeHint: 'Este archivo registra dónde se tomó la foto',
+    patternFoldersHint: 'Una / crea carpetas desde la carpeta elegida, p. ej. {exif:date:YYYY}/{exif:date:MM}/{name}.',
+    removeEmptyFoldersLabel: 'Eliminar carpetas vaciadas',
+    removeEmptyFoldersHint: 'Elimina las carpetas de las que salieron los archivos cuando quedan vacías',
+    rootFolder: 'Carpeta elegida',
+    folderFileCount: '{count} archivos',
+    partlyRevertedLabel: 'revertido en parte'
   },
   fr: {
     appTitle: 'Renommer',
     readyItems: 'éléments prêts',
     openFolder: 'Ouvrir Dossier',
     configTitle: 'Configuration',
+    presetLabel: 'Préréglage',
+    presetChoose: 'Choisir un préréglage…',
+    presetNone: 'Aucun préréglage enregistré',
+    presetSave: 'Enregistrer les paramètres actuels comme préréglage',
+    presetDelete: 'Supprimer le préréglage',
+    presetExport: 'Exporter les préréglages',
+    presetImport: 'Importer des préréglages',
+    presetNamePrompt: 'Nom du préréglage',
+    presetOverwriteConfirm: 'Remplacer le préréglage "{name}" ?',
+    presetDeleteConfirm: 'Supprimer le préréglage "{name}" ?',
+    presetImportFailed: 'Le fichier de préréglages n\'a pas pu être importé :',
     patternLabel: 'Modèle de Nom',
+    patternModifiersHint: 'Modificateurs : {name:upper}, {name:lower}, {name:slice(0,8)}, {num:000}, {date:YYYYMMDD}. Utilisez {{ et }} pour des accolades littérales.',
     startNumLabel: 'Numéro de Début',
     prefixLabel: 'Préfixe',
     suffixLabel: 'Suffixe',
     dryRunLabel: 'Mode Simulation',
-    overwriteLabel: 'Ecraser Existants',
+    conflictPolicyLabel: 'Si le Nom Existe Déjà',
+    policySkip: 'Ignorer',
+    policySuffix: 'Ajouter un suffixe',
+    policyNewer: 'Garder le plus récent',
+    policyLarger: 'Garder le plus grand',
+    policyOverwrite: 'Écraser',
+    suffixFormatLabel: 'Suffixe ({n} = compteur)',
+    suffixStartLabel: 'Premier {n}',
+    targetPlatformLabel: 'Noms Valides Pour',
+    platformPortable: 'Toutes les plateformes',
+    autoSanitizeLabel: 'Corriger automatiquement les noms invalides',
+    transliterateLabel: 'Convertir en ASCII simple (é → e, Ж → Zh)',
+    recursiveLabel: 'Inclure Sous-dossiers',
+    numberingScopeLabel: 'Numérotation',
+    numberingGlobal: 'Une séquence pour tous les dossiers',
+    numberingFolder: 'Recommencer dans chaque dossier',
     storageTitle: 'Stockage',
     filesFound: 'Fichiers',
     totalSize: 'Taille Totale',
@@ -143,7 +692,7 @@ export const translations = {
     files: 'fichiers',
 
     noFilesTitle: 'Aucune image sélectionnée',
-    noFilesSub: 'Sélectionnez un répertoire pour commencer',
+    noFilesSub: 'Sélectionnez un répertoire ou déposez-le ici pour commencer',
     headerIndex: '#',
     headerPreview: 'Aperçu',
     headerOriginal: 'Nom Original',
@@ -153,24 +702,198 @@ export const translations = {
     seqTooltip: 'Numéro Séquentiel',
     origTooltip: 'Nom Original',
     dateTooltip: 'Date de Création',
+    exifDateTooltip: 'Date de Prise de Vue (EXIF)',
+    exifTimeTooltip: 'Heure de Prise de Vue (EXIF)',
+    cameraTooltip: 'Modèle d\'Appareil',
+    lensTooltip: 'Modèle d\'Objectif',
+    isoTooltip: 'Sensibilité ISO',
+    focalTooltip: 'Focale',
 
     // Resize
     resizeLabel: 'Redimensionner Images',
     resizeSizeLabel: 'Largeur d\'Image',
+    resizeModeLabel: 'Mode de Redimensionnement',
+    resizeModeWidth: 'Ajuster la largeur',
+    resizeModeHeight: 'Ajuster la hauteur',
+    resizeModeLongEdge: 'Grand côté maximum',
+    resizeModeFit: 'Contenir dans L×H',
+    resizeModePercent: 'Échelle en pourcentage',
+    resizeModeCrop: 'Recadrer au ratio',
+    resizeHeightLabel: 'Hauteur d\'Image',
+    resizeLongEdgeLabel: 'Grand Côté',
+    resizePercentLabel: 'Échelle',
+    resizeMaxWidthLabel: 'Largeur Maximale',
+    cropAspectLabel: 'Ratio',
+    cropAnchorLabel: 'Zone Conservée',
+    noUpscaleHint: 'Les images plus petites que la cible ne sont jamais agrandies.',
     resizeQualityLabel: 'Qualité',
-    keepOriginalsLabel: 'Conserver Fichiers Originaux'
+    keepOriginalsLabel: 'Conserver Fichiers Originaux',
+    concurrencyLabel: 'Traitements Parallèles',
+    outputFormatLabel: 'Format de Sortie',
+    formatKeep: 'Garder le format d\'origine',
+    formatUnsupported: 'Ce navigateur ne peut pas encoder d\'images {format}',
+
+    // History
+    historyTitle: 'Historique',
+    undoLastBatch: 'Annuler le Dernier Lot',
+    revertBatch: 'Annuler ce lot',
+    revertedLabel: 'annulé',
+    historyOtherFolder: 'Ouvrez le même dossier pour annuler ce lot',
+    revertConfirm: 'Restaurer les noms d\'origine de ce lot ?',
+    revertPartial: 'Certains fichiers n\'ont pas été modifiés :',
+
+    // Duplicates
+    duplicatesTitle: 'Doublons',
+    duplicatesFind: 'Trouver les Doublons',
+    duplicatesRescan: 'Analyser à Nouveau',
+    similarityLabel: 'Tolérance de Similarité',
+    similarityExact: 'Identiques',
+    similarityLoose: 'Large',
+    excludeDuplicates: 'Exclure les doublons du lot',
+    moveDuplicates: 'Déplacer {count} vers duplicates/',
+    moveDuplicatesConfirm: 'Déplacer tous les doublons (pas les fichiers conservés) dans le dossier "duplicates" ? Cette action ne peut pas être annulée depuis l\'historique.',
+    moveDuplicatesPartial: 'Certains fichiers n\'ont pas pu être déplacés :',
+    noDuplicates: 'Aucun doublon trouvé.',
+    duplicateExact: 'Fichiers identiques',
+    duplicateSimilar: 'Images similaires',
+    duplicateKeeper: 'conservé',
+
+    // Name mapping
+    mappingLabel: 'Correspondance de Noms',
+    mappingImport: 'Importer un CSV old_name,new_name',
+    mappingClear: 'Ne plus utiliser la correspondance',
+    mappingSummary: '{matched} fichiers trouvés sur {rows} lignes',
+    mappingRow: 'Ligne',
+    mappingInvalid: 'ancien ou nouveau nom manquant',
+    mappingUnmatched: 'fichier introuvable',
+    mappingAmbiguous: 'correspond à plusieurs fichiers, utilisez le chemin relatif',
+    mappingDuplicate: 'fichier déjà associé par une ligne précédente',
+    mappingDuplicateTarget: 'nouveau nom utilisé deux fois',
+    mappingOverridesPattern: 'Les noms viennent de la correspondance importée.',
+    exportPlan: 'Exporter le plan de renommage',
+
+    // Rename rules
+    rulesLabel: 'Règles de Renommage',
+    ruleModeBefore: 'Avant le modèle',
+    ruleModeInstead: 'À la place du modèle',
+    ruleAdd: '+ Ajouter une règle…',
+    ruleReplace: 'Rechercher et remplacer (regex)',
+    ruleRemove: 'Supprimer des caractères',
+    ruleInsert: 'Insérer du texte',
+    ruleTrim: 'Supprimer les espaces aux extrémités',
+    ruleCollapseWhitespace: 'Réduire les espaces',
+    ruleCase: 'Changer la casse',
+    ruleFind: 'Expression régulière, ex. IMG_(\\d+)',
+    ruleReplaceWith: 'Remplacer par, ex. photo-$1',
+    ruleIgnoreCase: 'Ignorer la casse',
+    ruleCharsAt: 'caractères à la position',
+    ruleText: 'Texte',
+    ruleAtIndex: 'À l\'index',
+    ruleFromEnd: 'depuis la fin',
+    ruleEnabled: 'Activée',
+    ruleMoveUp: 'Monter',
+    ruleMoveDown: 'Descendre',
+    ruleDelete: 'Supprimer la règle',
+    sortLabel: 'Ordre',
+    sortName: 'Nom (naturel)',
+    sortModified: 'Date de modification',
+    sortCaptureDate: 'Date de prise de vue',
+    sortSize: 'Taille du fichier',
+    sortDimensions: 'Dimensions',
+    sortManual: 'Manuel',
+    sortAscending: 'Croissant',
+    sortDescending: 'Décroissant',
+    sortManualHint: 'Faites glisser les lignes de la liste pour changer l\'ordre. Les numéros suivent l\'ordre affiché.',
+    dragToReorder: 'Faites glisser pour réordonner',
+    filterTitle: 'Filtres',
+    filterInclude: 'Inclure (un motif par ligne)',
+    filterExclude: 'Exclure (un motif par ligne)',
+    filterGlobHint: '* et ? restent dans un dossier, ** traverse les dossiers. Les motifs sans / portent sur le nom du fichier dans tout dossier.',
+    filterExtensions: 'Types de fichier',
+    filterMinSize: 'Taille min. (Ko)',
+    filterMaxSize: 'Taille max. (Ko)',
+    filterNoLimit: 'Aucune limite',
+    filterDateLabel: 'Période',
+    filterDateFrom: 'Du (inclus)',
+    filterDateTo: 'Au (inclus)',
+    filterSummary: '{count} fichiers filtrés',
+    filterClear: 'Effacer les filtres',
+    statsToggleHint: 'Cliquez sur un type de fichier pour l\'inclure ou l\'exclure',
+    selectAll: 'Tout sélectionner',
+    selectedOnly: 'Sélection uniquement ({count})',
+    overrideHint: 'Cliquez pour saisir un nom pour ce fichier',
+    overrideBadge: 'Modifié',
+    overrideReset: 'Utiliser le nom généré',
+    scanProgress: 'Analyse… {found} images trouvées ({read} éléments lus)',
+    scanCancel: 'Annuler',
+    dropHint: 'Déposez un dossier ou des images pour les ouvrir',
+    downloadZip: 'Télécharger le ZIP',
+    uploadModeHint: 'Ce dossier a été ouvert comme copie importée et reste inchangé. Les fichiers renommés et redimensionnés sont téléchargés dans une archive ZIP.',
+    metadataTitle: 'Métadonnées',
+    metadataExif: 'EXIF (appareil, date, copyright)',
+    metadataXmp: 'XMP',
+    metadataIcc: 'Profil couleur (ICC)',
+    metadataKeep: 'Conserver',
+    metadataUpdate: 'Mettre à jour la taille',
+    metadataDrop: 'Supprimer',
+    metadataHint: 'Copiées dans les fichiers JPEG et PNG. L\'orientation est toujours réinitialisée, les pixels sont écrits à l\'endroit.',
+    rotateLeft: 'Pivoter à gauche',
+    rotateRight: 'Pivoter à droite',
+    rotate180: 'Pivoter de 180°',
+    flipHorizontal: 'Retourner horizontalement',
+    flipVertical: 'Retourner verticalement',
+    transformBadge: 'Pivotée ou retournée à l\'écriture du fichier',
+    transformReset: 'Annuler la rotation et le retournement',
+    transformBatchHint: 'Pivoter ou retourner les images sélectionnées, ou toutes si aucune n\'est sélectionnée',
+    privacyMode: 'Mode confidentialité',
+    privacyModeHint: 'Supprime la position GPS, les numéros de série, les noms du propriétaire et les miniatures des fichiers JPEG, PNG et WebP, sans les réencoder.',
+    gpsBadge: 'GPS',
+    gpsBadgeHint: 'Ce fichier indique où la photo a été prise',
+    patternFoldersHint: 'Un / crée des dossiers à partir du dossier choisi, p. ex. {exif:date:YYYY}/{exif:date:MM}/{name}.',
+    removeEmptyFoldersLabel: 'Supprimer les dossiers vidés',
+    removeEmptyFoldersHint: 'Supprime les dossiers quittés par les fichiers une fois qu\'ils sont vides',
+    rootFolder: 'Dossier choisi',
+    folderFileCount: '{count} fichiers',
+    partlyRevertedLabel: 'annulé en partie'
   },
   de: {
     appTitle: 'Umbenennen',
     readyItems: 'Elemente bereit',
     openFolder: 'Ordner öffnen',
     configTitle: 'Konfiguration',
+    presetLabel: 'Voreinstellung',
+    presetChoose: 'Voreinstellung wählen…',
+    presetNone: 'Keine Voreinstellungen gespeichert',
+    presetSave: 'Aktuelle Einstellungen als Voreinstellung speichern',
+    presetDelete: 'Voreinstellung löschen',
+    presetExport: 'Voreinstellungen exportieren',
+    presetImport: 'Voreinstellungen importieren',
+    presetNamePrompt: 'Name der Voreinstellung',
+    presetOverwriteConfirm: 'Voreinstellung "{name}" ersetzen?',
+    presetDeleteConfirm: 'Voreinstellung "{name}" löschen?',
+    presetImportFailed: 'Die Datei mit Voreinstellungen konnte nicht importiert werden:',
     patternLabel: 'Namensmuster',
+    patternModifiersHint: 'Modifikatoren: {name:upper}, {name:lower}, {name:slice(0,8)}, {num:000}, {date:YYYYMMDD}. {{ und }} für wörtliche Klammern.',
     startNumLabel: 'Startnummer',
     prefixLabel: 'Präfix',
     suffixLabel: 'Suffix',
     dryRunLabel: 'Simulationsmodus',
-    overwriteLabel: 'Überschreiben',
+    conflictPolicyLabel: 'Wenn der Name Vergeben Ist',
+    policySkip: 'Überspringen',
+    policySuffix: 'Suffix anhängen',
+    policyNewer: 'Neuere behalten',
+    policyLarger: 'Größere behalten',
+    policyOverwrite: 'Überschreiben',
+    suffixFormatLabel: 'Suffix ({n} = Zähler)',
+    suffixStartLabel: 'Erstes {n}',
+    targetPlatformLabel: 'Gültige Dateinamen Für',
+    platformPortable: 'Alle Plattformen',
+    autoSanitizeLabel: 'Ungültige Namen automatisch korrigieren',
+    transliterateLabel: 'In einfaches ASCII umwandeln (é → e, Ж → Zh)',
+    recursiveLabel: 'Unterordner Einbeziehen',
+    numberingScopeLabel: 'Nummerierung',
+    numberingGlobal: 'Eine Folge für alle Ordner',
+    numberingFolder: 'In jedem Ordner neu beginnen',
     storageTitle: 'Speicherübersicht',
     filesFound: 'Dateien',
     totalSize: 'Gesamtgröße',
@@ -182,7 +905,7 @@ export const translations = {
     files: 'Dateien',
 
     noFilesTitle: 'Keine Bilder ausgewählt',
-    noFilesSub: 'Wählen Sie ein Verzeichnis',
+    noFilesSub: 'Wählen Sie ein Verzeichnis oder legen Sie es hier ab',
     headerIndex: '#',
     headerPreview: 'Vorschau',
     headerOriginal: 'Originalname',
@@ -192,11 +915,158 @@ export const translations = {
     seqTooltip: 'Laufende Nummer',
     origTooltip: 'Originaldateiname',
     dateTooltip: 'Erstellungsdatum',
+    exifDateTooltip: 'Aufnahmedatum (EXIF)',
+    exifTimeTooltip: 'Aufnahmezeit (EXIF)',
+    cameraTooltip: 'Kameramodell',
+    lensTooltip: 'Objektivmodell',
+    isoTooltip: 'ISO-Empfindlichkeit',
+    focalTooltip: 'Brennweite',
 
     // Resize
     resizeLabel: 'Bilder Skalieren',
     resizeSizeLabel: 'Bildbreite',
+    resizeModeLabel: 'Skalierungsmodus',
+    resizeModeWidth: 'Breite anpassen',
+    resizeModeHeight: 'Höhe anpassen',
+    resizeModeLongEdge: 'Maximale lange Kante',
+    resizeModeFit: 'In B×H einpassen',
+    resizeModePercent: 'Prozentual skalieren',
+    resizeModeCrop: 'Auf Seitenverhältnis zuschneiden',
+    resizeHeightLabel: 'Bildhöhe',
+    resizeLongEdgeLabel: 'Lange Kante',
+    resizePercentLabel: 'Skalierung',
+    resizeMaxWidthLabel: 'Maximale Breite',
+    cropAspectLabel: 'Seitenverhältnis',
+    cropAnchorLabel: 'Behaltener Bereich',
+    noUpscaleHint: 'Bilder, die kleiner als das Ziel sind, werden nie vergrößert.',
     resizeQualityLabel: 'Qualität',
-    keepOriginalsLabel: 'Originaldateien Behalten'
+    keepOriginalsLabel: 'Originaldateien Behalten',
+    concurrencyLabel: 'Parallele Worker',
+    outputFormatLabel: 'Ausgabeformat',
+    formatKeep: 'Originalformat behalten',
+    formatUnsupported: 'Dieser Browser kann keine {format}-Bilder erzeugen',
+
+    // History
+    historyTitle: 'Verlauf',
+    undoLastBatch: 'Letzten Stapel Rückgängig',
+    revertBatch: 'Diesen Stapel rückgängig machen',
+    revertedLabel: 'rückgängig gemacht',
+    historyOtherFolder: 'Öffnen Sie denselben Ordner, um diesen Stapel rückgängig zu machen',
+    revertConfirm: 'Ursprüngliche Namen dieses Stapels wiederherstellen?',
+    revertPartial: 'Einige Dateien wurden nicht verändert:',
+
+    // Duplicates
+    duplicatesTitle: 'Duplikate',
+    duplicatesFind: 'Duplikate Suchen',
+    duplicatesRescan: 'Erneut Analysieren',
+    similarityLabel: 'Ähnlichkeitstoleranz',
+    similarityExact: 'Identisch',
+    similarityLoose: 'Locker',
+    excludeDuplicates: 'Duplikate vom Stapel ausschließen',
+    moveDuplicates: '{count} nach duplicates/ verschieben',
+    moveDuplicatesConfirm: 'Alle Duplikate (nicht die behaltenen Dateien) in den Ordner "duplicates" verschieben? Dies kann nicht über den Verlauf rückgängig gemacht werden.',
+    moveDuplicatesPartial: 'Einige Dateien konnten nicht verschoben werden:',
+    noDuplicates: 'Keine Duplikate gefunden.',
+    duplicateExact: 'Identische Dateien',
+    duplicateSimilar: 'Ähnliche Bilder',
+    duplicateKeeper: 'behalten',
+
+    // Name mapping
+    mappingLabel: 'Namenszuordnung',
+    mappingImport: 'CSV mit old_name,new_name importieren',
+    mappingClear: 'Zuordnung nicht mehr verwenden',
+    mappingSummary: '{matched} Dateien aus {rows} Zeilen zugeordnet',
+    mappingRow: 'Zeile',
+    mappingInvalid: 'alter oder neuer Name fehlt',
+    mappingUnmatched: 'Datei nicht gefunden',
+    mappingAmbiguous: 'passt auf mehrere Dateien, relativen Pfad verwenden',
+    mappingDuplicate: 'Datei bereits durch eine frühere Zeile zugeordnet',
+    mappingDuplicateTarget: 'neuer Name doppelt verwendet',
+    mappingOverridesPattern: 'Die Namen stammen aus der importierten Zuordnung.',
+    exportPlan: 'Umbenennungsplan exportieren',
+
+    // Rename rules
+    rulesLabel: 'Umbenennungsregeln',
+    ruleModeBefore: 'Vor dem Muster',
+    ruleModeInstead: 'Anstelle des Musters',
+    ruleAdd: '+ Regel hinzufügen…',
+    ruleReplace: 'Suchen & ersetzen (Regex)',
+    ruleRemove: 'Zeichen entfernen',
+    ruleInsert: 'Text einfügen',
+    ruleTrim: 'Leerzeichen an den Rändern entfernen',
+    ruleCollapseWhitespace: 'Leerzeichen zusammenfassen',
+    ruleCase: 'Groß-/Kleinschreibung ändern',
+    ruleFind: 'Regulärer Ausdruck, z. B. IMG_(\\d+)',
+    ruleReplaceWith: 'Ersetzen durch, z. B. foto-$1',
+    ruleIgnoreCase: 'Groß-/Kleinschreibung ignorieren',
+    ruleCharsAt: 'Zeichen ab Position',
+    ruleText: 'Text',
+    ruleAtIndex: 'An Index',
+    ruleFromEnd: 'vom Ende',
+    ruleEnabled: 'Aktiv',
+    ruleMoveUp: 'Nach oben',
+    ruleMoveDown: 'Nach unten',
+    ruleDelete: 'Regel löschen',
+    sortLabel: 'Reihenfolge',
+    sortName: 'Name (natürlich)',
+    sortModified: 'Änderungsdatum',
+    sortCaptureDate: 'Aufnahmedatum',
+    sortSize: 'Dateigröße',
+    sortDimensions: 'Abmessungen',
+    sortManual: 'Manuell',
+    sortAscending: 'Aufsteigend',
+    sortDescending: 'Absteigend',
+    sortManualHint: 'Zeilen in der Liste ziehen, um die Reihenfolge zu ändern. Die Nummern folgen der angezeigten Reihenfolge.',
+    dragToReorder: 'Ziehen zum Umsortieren',
+    filterTitle: 'Filter',
+    filterInclude: 'Einschließen (ein Muster pro Zeile)',
+    filterExclude: 'Ausschließen (ein Muster pro Zeile)',
+    filterGlobHint: '* und ? gelten innerhalb eines Ordners, ** über Ordner hinweg. Muster ohne / prüfen den Dateinamen in jedem Ordner.',
+    filterExtensions: 'Dateitypen',
+    filterMinSize: 'Min. Größe (KB)',
+    filterMaxSize: 'Max. Größe (KB)',
+    filterNoLimit: 'Keine Grenze',
+    filterDateLabel: 'Zeitraum',
+    filterDateFrom: 'Von (einschließlich)',
+    filterDateTo: 'Bis (einschließlich)',
+    filterSummary: '{count} Dateien herausgefiltert',
+    filterClear: 'Filter zurücksetzen',
+    statsToggleHint: 'Auf einen Dateityp klicken, um ihn ein- oder auszuschließen',
+    selectAll: 'Alle auswählen',
+    selectedOnly: 'Nur Auswahl ({count})',
+    overrideHint: 'Klicken, um einen Namen für diese Datei einzugeben',
+    overrideBadge: 'Bearbeitet',
+    overrideReset: 'Generierten Namen verwenden',
+    scanProgress: 'Durchsuche… {found} Bilder gefunden ({read} Einträge gelesen)',
+    scanCancel: 'Abbrechen',
+    dropHint: 'Ordner oder Bilder zum Öffnen hier ablegen',
+    downloadZip: 'ZIP herunterladen',
+    uploadModeHint: 'Dieser Ordner wurde als hochgeladene Kopie geöffnet und bleibt unverändert. Die umbenannten und skalierten Dateien werden als ZIP-Archiv heruntergeladen.',
+    metadataTitle: 'Metadaten',
+    metadataExif: 'EXIF (Kamera, Datum, Copyright)',
+    metadataXmp: 'XMP',
+    metadataIcc: 'Farbprofil (ICC)',
+    metadataKeep: 'Behalten',
+    metadataUpdate: 'Größe anpassen',
+    metadataDrop: 'Entfernen',
+    metadataHint: 'Wird in JPEG- und PNG-Dateien übernommen. Die Ausrichtung wird immer zurückgesetzt, die Pixel werden aufrecht geschrieben.',
+    rotateLeft: 'Nach links drehen',
+    rotateRight: 'Nach rechts drehen',
+    rotate180: 'Um 180° drehen',
+    flipHorizontal: 'Horizontal spiegeln',
+    flipVertical: 'Vertikal spiegeln',
+    transformBadge: 'Wird beim Schreiben der Datei gedreht oder gespiegelt',
+    transformReset: 'Drehung und Spiegelung zurücksetzen',
+    transformBatchHint: 'Ausgewählte Bilder drehen oder spiegeln, oder alle, wenn keines ausgewählt ist',
+    privacyMode: 'Datenschutzmodus',
+    privacyModeHint: 'Entfernt GPS-Position, Seriennummern, Besitzernamen und Vorschaubilder aus JPEG-, PNG- und WebP-Dateien, ohne sie neu zu kodieren.',
+    gpsBadge: 'GPS',
+    gpsBadgeHint: 'Diese Datei enthält den Aufnahmeort',
+    patternFoldersHint: 'Ein / legt Ordner ab dem gewählten Ordner an, z. B. {exif:date:YYYY}/{exif:date:MM}/{name}.',
+    removeEmptyFoldersLabel: 'Geleerte Ordner entfernen',
+    removeEmptyFoldersHint: 'Löscht die Ordner, aus denen Dateien verschoben wurden, sobald sie leer sind',
+    rootFolder: 'Gewählter Ordner',
+    folderFileCount: '{count} Dateien',
+    partlyRevertedLabel: 'teilweise rückgängig'
   }
 };
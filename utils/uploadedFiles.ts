@@ -0,0 +1,74 @@
+import { UploadedFile } from '../services/FileSystemAdapter';
+
+/**
+ * Helpers reading folders given through a folder input or drag and drop,
+ * for browsers without the File System Access API.
+ */
+
+export interface Upload {
+  rootName: string;
+  files: UploadedFile[];
+}
+
+// Root name when several files or folders are dropped at once
+const DROPPED_ROOT = 'dropped-files';
+
+/**
+ * Files chosen with <input type="file" webkitdirectory>. Their relative paths start
+ * with the chosen folder, which becomes the root.
+ */
+export const readInputFiles = (list: FileList): Upload => {
+  const files = Array.from(list).map(file => ({ path: file.webkitRelativePath || file.name, file }));
+  const rootName = files[0]?.path.split('/')[0] ?? DROPPED_ROOT;
+  const prefix = `${rootName}/`;
+
+  return {
+    rootName,
+    files: files.map(({ path, file }) => ({ path: path.startsWith(prefix) ? path.substring(prefix.length) : path, file }))
+  };
+};
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const getFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const collect = async (entry: FileSystemEntry, path: string, files: UploadedFile[]): Promise<void> => {
+  if (entry.isFile) {
+    files.push({ path, file: await getFile(entry as FileSystemFileEntry) });
+    return;
+  }
+  if (!entry.isDirectory) return;
+
+  // readEntries returns the folder in batches (100 in Chrome) until it returns none
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) {
+      await collect(child, path ? `${path}/${child.name}` : child.name, files);
+    }
+  }
+};
+
+/**
+ * Files and folders dropped on the page. A single dropped folder becomes the root;
+ * otherwise the dropped items are placed side by side in a root of their own.
+ */
+export const readDroppedItems = async (items: DataTransferItemList): Promise<Upload> => {
+  // Entries must be taken before the first await, the list is emptied once the event returns
+  const entries = Array.from(items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  const files: UploadedFile[] = [];
+  if (entries.length === 1 && entries[0].isDirectory) {
+    await collect(entries[0], '', files);
+    return { rootName: entries[0].name, files };
+  }
+
+  for (const entry of entries) {
+    await collect(entry, entry.name, files);
+  }
+  return { rootName: DROPPED_ROOT, files };
+};
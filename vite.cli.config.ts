@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Builds the photon-rename command line tool into dist-cli (npm run build:cli)
+export default defineConfig({
+  build: {
+    ssr: 'cli/photon-rename.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: '[name].js',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  }
+});
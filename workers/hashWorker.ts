@@ -0,0 +1,61 @@
+/**
+ * Hashing worker
+ * Computes the SHA-256 of the file content and a 64-bit difference hash (dHash) of the picture.
+ * Driven by WorkerPool, see DuplicateFinder.
+ */
+import type { ImageHashes } from '../types';
+import type { HashTask } from '../services/DuplicateFinder';
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * dHash: the picture is shrunk to 9×8 grey pixels and every bit tells whether
+ * a pixel is brighter than its right neighbour. Re-encoded or resized copies keep almost all bits.
+ */
+const differenceHash = async (file: Blob): Promise<string | null> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { resizeWidth: 9, resizeHeight: 8, resizeQuality: 'medium' });
+  } catch {
+    return null; // Not decodable by the browser (e.g. TIFF)
+  }
+
+  try {
+    const canvas = new OffscreenCanvas(9, 8);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(bitmap, 0, 0);
+    const { data } = ctx.getImageData(0, 0, 9, 8);
+
+    const grey = (x: number, y: number) => {
+      const i = (y * 9 + x) * 4;
+      return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+
+    const bytes = new Uint8Array(8);
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        if (grey(x, y) > grey(x + 1, y)) {
+          bytes[y] |= 1 << (7 - x);
+        }
+      }
+    }
+    return toHex(bytes);
+  } finally {
+    bitmap.close();
+  }
+};
+
+self.onmessage = async (e: MessageEvent<{ id: number; task: HashTask }>) => {
+  const { id, task } = e.data;
+  try {
+    const digest = await crypto.subtle.digest('SHA-256', await task.file.arrayBuffer());
+    const result: ImageHashes = {
+      sha256: toHex(new Uint8Array(digest)),
+      dHash: await differenceHash(task.file)
+    };
+    self.postMessage({ id, result });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
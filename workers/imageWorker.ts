@@ -0,0 +1,116 @@
+/**
+ * Image processing worker
+ * Decodes a file once with createImageBitmap, turns it upright, then resizes and/or re-encodes it on an OffscreenCanvas.
+ * Metadata of the source is copied into the output afterwards, see utils/imageMetadata.
+ * Files that only need their private metadata removed are rewritten without decoding.
+ * Driven by WorkerPool, see ImageResizer.process.
+ */
+import { computeResizeGeometry } from '../utils/resizeGeometry';
+import {
+  METADATA_MIME_TYPES, applyMetadataSettings, readMetadata, stripPrivateBlocks, stripPrivateMetadata, writeMetadata
+} from '../utils/imageMetadata';
+import { IDENTITY, composeTransforms, fromExifOrientation, isIdentity, swapsAxes } from '../utils/orientation';
+import type { ImageTask, ImageTaskResult } from '../services/ImageResizer';
+import type { ImageTransform } from '../types';
+
+/**
+ * Rotation/flip still to do on the decoded bitmap. Browsers honour imageOrientation, but
+ * older ones return the stored pixels; for turned pictures that shows in the bitmap size.
+ */
+const getPendingTransform = (bitmap: ImageBitmap, task: ImageTask): ImageTransform => {
+  const orientation = fromExifOrientation(task.orientation);
+  const ignored = swapsAxes(orientation) && task.width !== undefined && task.width !== task.height
+    && bitmap.width === task.height && bitmap.height === task.width;
+  return composeTransforms(ignored ? orientation : IDENTITY, task.transform ?? IDENTITY);
+};
+
+const drawTransformed = (bitmap: ImageBitmap, transform: ImageTransform): OffscreenCanvas => {
+  const swap = swapsAxes(transform);
+  const canvas = new OffscreenCanvas(swap ? bitmap.height : bitmap.width, swap ? bitmap.width : bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(transform.rotate * Math.PI / 180);
+  if (transform.flip) ctx.scale(-1, 1);
+  ctx.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+  return canvas;
+};
+
+// The file as it is, or without its private metadata in privacy mode
+const keepContent = async (task: ImageTask, width: number, height: number): Promise<ImageTaskResult> => ({
+  blob: task.privacy ? await stripPrivateMetadata(task.file) : null,
+  resized: false,
+  width,
+  height
+});
+
+const process = async (task: ImageTask): Promise<ImageTaskResult> => {
+  if (!task.resize && !task.convert && !task.transform) {
+    return keepContent(task, task.width ?? 0, task.height ?? 0);
+  }
+
+  const blocks = METADATA_MIME_TYPES.includes(task.mimeType) ? await readMetadata(task.file) : {};
+  const metadata = task.privacy ? stripPrivateBlocks(blocks) : blocks;
+
+  // When the profile is copied, the pixels must stay in its color space instead of being
+  // converted to sRGB. The orientation is applied, so the output is upright without its tag.
+  const keepProfile = metadata.icc !== undefined && task.metadata.iccMode === 'keep';
+  const bitmap = await createImageBitmap(task.file, {
+    imageOrientation: 'from-image',
+    colorSpaceConversion: keepProfile ? 'none' : 'default'
+  });
+
+  try {
+    // Sizes are computed on the upright picture, so limits apply to the edges as seen
+    const transform = getPendingTransform(bitmap, task);
+    const source = isIdentity(transform) ? bitmap : drawTransformed(bitmap, transform);
+
+    const geometry = task.resize ? computeResizeGeometry(source.width, source.height, task.resize) : null;
+    if (!geometry && !task.convert && !task.transform) {
+      return keepContent(task, bitmap.width, bitmap.height);
+    }
+
+    const { sx, sy, sw, sh, width, height } = geometry ?? {
+      sx: 0, sy: 0, sw: source.width, sh: source.height, width: source.width, height: source.height
+    };
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get canvas context');
+    }
+
+    // JPEG has no alpha channel, flatten transparent sources onto white
+    if (task.mimeType === 'image/jpeg') {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+    }
+
+    // Use high quality image smoothing
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, sx, sy, sw, sh, 0, 0, width, height);
+
+    const encoded = await canvas.convertToBlob({ type: task.mimeType, quality: task.quality / 100 });
+    // Unknown types silently fall back to PNG
+    if (encoded.type !== task.mimeType) {
+      throw new Error(`This browser cannot encode ${task.mimeType} images`);
+    }
+
+    const blob = await writeMetadata(encoded, applyMetadataSettings(metadata, task.metadata, width, height));
+    return { blob, resized: geometry !== null, width, height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+self.onmessage = async (e: MessageEvent<{ id: number; task: ImageTask }>) => {
+  const { id, task } = e.data;
+  try {
+    self.postMessage({ id, result: await process(task) });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
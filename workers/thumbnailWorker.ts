@@ -0,0 +1,50 @@
+/**
+ * Thumbnail worker
+ * Shrinks an image so its short edge fits the thumbnail size and encodes it as WebP (JPEG where WebP is unavailable).
+ * Driven by WorkerPool, see ThumbnailCache.
+ */
+import type { ThumbnailTask } from '../services/ThumbnailCache';
+
+const decode = (task: ThumbnailTask): Promise<ImageBitmap> => {
+  // With a known size the decoder can downscale while decoding, which is much cheaper.
+  // Only the width is given: the height follows the aspect ratio even when EXIF rotates the picture.
+  if (task.width && task.height) {
+    const scale = Math.min(1, task.size / Math.min(task.width, task.height));
+    return createImageBitmap(task.file, {
+      resizeWidth: Math.max(1, Math.round(task.width * scale)),
+      resizeQuality: 'medium'
+    });
+  }
+  return createImageBitmap(task.file);
+};
+
+const createThumbnail = async (task: ThumbnailTask): Promise<Blob> => {
+  const bitmap = await decode(task);
+
+  try {
+    const scale = Math.min(1, task.size / Math.min(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get canvas context');
+    }
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    const blob = await canvas.convertToBlob({ type: 'image/webp', quality: 0.8 });
+    return blob.type === 'image/webp' ? blob : canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 });
+  } finally {
+    bitmap.close();
+  }
+};
+
+self.onmessage = async (e: MessageEvent<{ id: number; task: ThumbnailTask }>) => {
+  const { id, task } = e.data;
+  try {
+    self.postMessage({ id, result: await createThumbnail(task) });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};